@@ -0,0 +1,43 @@
+import type { NextRequest } from 'next/server'
+import { parsePrivacyRules } from '@/lib/privacy'
+import { isValidProjectId } from '@/lib/routes'
+import { errorResponse } from '@/lib/server/posthog'
+import { getPrivacyRules, setPrivacyRules } from '@/lib/server/privacy'
+import { isAdminViewer } from '@/lib/server/viewer'
+
+export async function GET(request: NextRequest) {
+  const projectId = request.nextUrl.searchParams.get('projectId')
+  if (projectId !== null && !isValidProjectId(projectId)) {
+    return errorResponse(new Error(`Invalid project ID "${projectId}"`), 400)
+  }
+
+  try {
+    return Response.json(await getPrivacyRules(projectId ?? undefined))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const projectId = request.nextUrl.searchParams.get('projectId')
+  if (projectId !== null && !isValidProjectId(projectId)) {
+    return errorResponse(new Error(`Invalid project ID "${projectId}"`), 400)
+  }
+  if (!(await isAdminViewer())) {
+    return errorResponse(new Error('Only admins can change privacy rules'), 403)
+  }
+
+  let rules
+  try {
+    rules = parsePrivacyRules(await request.json().catch(() => null))
+  } catch (error) {
+    return errorResponse(error, 400)
+  }
+
+  try {
+    await setPrivacyRules(rules, projectId ?? undefined)
+    return Response.json(rules)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
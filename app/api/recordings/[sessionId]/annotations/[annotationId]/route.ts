@@ -0,0 +1,39 @@
+import type { NextRequest } from 'next/server'
+import { AnnotationError, deleteAnnotation, parseAnnotationInput, updateAnnotation } from '@/lib/server/annotations'
+import { errorResponse, validateRecordingParams } from '@/lib/server/posthog'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string, annotationId: string }> }
+) {
+  const { sessionId, annotationId } = await params
+  const projectId = request.nextUrl.searchParams.get('projectId')
+
+  const invalid = validateRecordingParams(sessionId, projectId)
+  if (invalid) return invalid
+
+  try {
+    const patch = parseAnnotationInput(await request.json().catch(() => null), true)
+    return Response.json(await updateAnnotation(sessionId, annotationId, patch, projectId ?? undefined))
+  } catch (error) {
+    return errorResponse(error, error instanceof AnnotationError ? error.status : 500)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string, annotationId: string }> }
+) {
+  const { sessionId, annotationId } = await params
+  const projectId = request.nextUrl.searchParams.get('projectId')
+
+  const invalid = validateRecordingParams(sessionId, projectId)
+  if (invalid) return invalid
+
+  try {
+    await deleteAnnotation(sessionId, annotationId, projectId ?? undefined)
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, error instanceof AnnotationError ? error.status : 500)
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextRequest } from 'next/server'
+import { AnnotationError, createAnnotation, listAnnotations, parseAnnotationInput } from '@/lib/server/annotations'
+import { errorResponse, validateRecordingParams } from '@/lib/server/posthog'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params
+  const projectId = request.nextUrl.searchParams.get('projectId')
+
+  const invalid = validateRecordingParams(sessionId, projectId)
+  if (invalid) return invalid
+
+  try {
+    return Response.json(await listAnnotations(sessionId, projectId ?? undefined))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params
+  const projectId = request.nextUrl.searchParams.get('projectId')
+
+  const invalid = validateRecordingParams(sessionId, projectId)
+  if (invalid) return invalid
+
+  try {
+    const input = parseAnnotationInput(await request.json().catch(() => null))
+    return Response.json(await createAnnotation(sessionId, input, projectId ?? undefined), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, error instanceof AnnotationError ? error.status : 500)
+  }
+}
@@ -0,0 +1,33 @@
+import type { NextRequest } from 'next/server'
+import { errorResponse, fetchSnapshotFromSource, forwardResponse, validateRecordingParams } from '@/lib/server/posthog'
+import type { Source } from '@/lib/types'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params
+  const searchParams = request.nextUrl.searchParams
+  const projectId = searchParams.get('projectId')
+
+  const invalid = validateRecordingParams(sessionId, projectId)
+  if (invalid) return invalid
+
+  const sourceName = searchParams.get('source')
+  if (!sourceName) {
+    return errorResponse(new Error('Missing "source" query parameter'), 400)
+  }
+
+  const source: Source = {
+    source: sourceName,
+    blob_key: searchParams.get('blob_key') ?? undefined,
+    start_blob_key: searchParams.get('start_blob_key') ?? undefined,
+    end_blob_key: searchParams.get('end_blob_key') ?? undefined,
+  }
+
+  try {
+    return forwardResponse(await fetchSnapshotFromSource(sessionId, source, projectId ?? undefined))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
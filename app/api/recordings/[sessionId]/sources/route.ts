@@ -0,0 +1,19 @@
+import type { NextRequest } from 'next/server'
+import { errorResponse, fetchSources, forwardResponse, validateRecordingParams } from '@/lib/server/posthog'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params
+  const projectId = request.nextUrl.searchParams.get('projectId')
+
+  const invalid = validateRecordingParams(sessionId, projectId)
+  if (invalid) return invalid
+
+  try {
+    return forwardResponse(await fetchSources(sessionId, projectId ?? undefined))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,28 @@
+import type { NextRequest } from 'next/server'
+import { errorResponse, listRecordings } from '@/lib/server/posthog'
+import { filtersFromSearchParams, isValidProjectId } from '@/lib/routes'
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const projectId = searchParams.get('projectId')
+
+  if (projectId !== null && !isValidProjectId(projectId)) {
+    return errorResponse(new Error(`Invalid project ID "${projectId}"`), 400)
+  }
+
+  const cursor = searchParams.get('cursor')
+  if (cursor !== null && !/^\d+$/.test(cursor)) {
+    return errorResponse(new Error(`Invalid cursor "${cursor}"`), 400)
+  }
+
+  try {
+    const page = await listRecordings(filtersFromSearchParams(searchParams), {
+      cursor,
+      limit: Number(searchParams.get('limit')) || undefined,
+      projectId: projectId ?? undefined,
+    })
+    return Response.json(page)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,48 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import CompareView from '@/components/CompareView'
+import { isValidProjectId, isValidSessionId } from '@/lib/routes'
+import { isAdminViewer } from '@/lib/server/viewer'
+
+export const metadata: Metadata = {
+  title: 'Compare sessions · Converlytik Session Replay',
+}
+
+interface ComparePageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { a, b, projectId } = await searchParams
+
+  if (typeof a !== 'string' || typeof b !== 'string' || !isValidSessionId(a) || !isValidSessionId(b)) {
+    notFound()
+  }
+
+  if (projectId !== undefined && (typeof projectId !== 'string' || !isValidProjectId(projectId))) {
+    notFound()
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-screen-2xl mx-auto">
+        <div className="mb-6">
+          <Link href="/sessions" className="text-sm text-blue-600 hover:underline">
+            ← Recordings
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Compare sessions</h1>
+          {projectId && <p className="text-sm text-gray-500">project {projectId}</p>}
+        </div>
+
+        {/* Keyed so a new pair starts from a clean slate */}
+        <CompareView
+          key={`${projectId ?? ''}:${a}:${b}`}
+          sessionIds={[a, b]}
+          projectId={projectId}
+          isAdmin={await isAdminViewer()}
+        />
+      </div>
+    </main>
+  )
+}
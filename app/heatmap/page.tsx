@@ -0,0 +1,46 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import SessionsHeatmap from '@/components/SessionsHeatmap'
+import { isValidProjectId, parseSessionListParam } from '@/lib/routes'
+import { isAdminViewer } from '@/lib/server/viewer'
+
+export const metadata: Metadata = {
+  title: 'Heatmap · Converlytik Session Replay',
+}
+
+interface HeatmapPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}
+
+export default async function HeatmapPage({ searchParams }: HeatmapPageProps) {
+  const { ids, projectId } = await searchParams
+  const sessionIds = parseSessionListParam(ids)
+
+  if (!sessionIds) {
+    notFound()
+  }
+
+  if (projectId !== undefined && (typeof projectId !== 'string' || !isValidProjectId(projectId))) {
+    notFound()
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-screen-2xl mx-auto">
+        <div className="mb-6">
+          <Link href="/sessions" className="text-sm text-blue-600 hover:underline">
+            ← Recordings
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Heatmap</h1>
+          <p className="text-sm text-gray-500">
+            {sessionIds.length} session{sessionIds.length === 1 ? '' : 's'}
+            {projectId && ` · project ${projectId}`}
+          </p>
+        </div>
+
+        <SessionsHeatmap sessionIds={sessionIds} projectId={projectId} isAdmin={await isAdminViewer()} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import RecordingImport from '@/components/RecordingImport'
+
+export const metadata: Metadata = {
+  title: 'Import recording · Converlytik Session Replay',
+}
+
+export default function ImportPage() {
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            ← Back
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Import recording</h1>
+        </div>
+
+        <RecordingImport />
+      </div>
+    </main>
+  )
+}
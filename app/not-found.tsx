@@ -0,0 +1,19 @@
+import Link from 'next/link'
+
+export default function NotFound() {
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800 font-semibold">Recording not found</p>
+          <p className="text-yellow-700 mb-4">
+            The session ID is invalid or PostHog has no recording for it.
+          </p>
+          <Link href="/" className="text-blue-600 hover:underline">
+            Open another recording
+          </Link>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -1,32 +1,34 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { fetchSessionData } from '@/lib/api'
-import Player from '@/components/Player'
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import CacheControls from '@/components/CacheControls'
+import { config } from '@/lib/config'
+import { isValidProjectId, isValidSessionId, sessionPath } from '@/lib/routes'
 
 export default function Home() {
-  const [events, setEvents] = useState<any[]>([])
-  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+  const [sessionId, setSessionId] = useState(config.sessionId)
+  const [projectId, setProjectId] = useState('')
   const [error, setError] = useState<string | null>(null)
-  const [playerReady, setPlayerReady] = useState(false)
 
-  useEffect(() => {
-    async function loadSession() {
-      try {
-        setLoading(true)
-        setError(null)
-        const data = await fetchSessionData()
-        setEvents(data)
-      } catch (err) {
-        console.error('Error loading session:', err)
-        setError(err instanceof Error ? err.message : 'Failed to load session')
-      } finally {
-        setLoading(false)
-      }
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const id = sessionId.trim()
+    const project = projectId.trim()
+
+    if (!isValidSessionId(id)) {
+      setError('Session IDs look like 019c00f8-e2a7-77df-b744-3bde2a601ce9')
+      return
+    }
+    if (project && !isValidProjectId(project)) {
+      setError('Project IDs are numeric')
+      return
     }
 
-    loadSession()
-  }, [])
+    router.push(sessionPath(id, { projectId: project || undefined }))
+  }
 
   return (
     <main className="min-h-screen bg-gray-100 p-8">
@@ -35,42 +37,44 @@ export default function Home() {
           Converlytik Session Replay Player
         </h1>
 
-        {loading && (
-          <div className="flex items-center justify-center h-96">
-            <div className="text-center">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-              <p className="text-gray-600">Loading session recording...</p>
-            </div>
-          </div>
-        )}
-
-        {error && (
-          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
-            <p className="text-red-800 font-semibold">Error</p>
-            <p className="text-red-600">{error}</p>
-          </div>
-        )}
-
-        {!loading && !error && events.length > 0 && (
-          <div className="bg-white rounded-lg shadow-lg p-6">
-            <div className="mb-4 text-sm">
-              {playerReady ? (
-                <span className="text-green-600 font-semibold">✅ Recording loaded successfully</span>
-              ) : (
-                <span className="text-gray-600">Loading {events.length} events...</span>
-              )}
-            </div>
-            <div className="h-[80vh] min-h-[600px]">
-              <Player events={events} onReady={() => setPlayerReady(true)} />
-            </div>
-          </div>
-        )}
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg p-6 flex flex-wrap items-end gap-4">
+          <label className="flex-1 min-w-[320px] text-sm text-gray-700">
+            Session ID
+            <input
+              value={sessionId}
+              onChange={(e) => setSessionId(e.target.value)}
+              placeholder="019c00f8-e2a7-77df-b744-3bde2a601ce9"
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-2 font-mono text-gray-900"
+            />
+          </label>
+          <label className="w-40 text-sm text-gray-700">
+            Project ID (optional)
+            <input
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded px-3 py-2 font-mono text-gray-900"
+            />
+          </label>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
+          >
+            Open recording
+          </button>
+          {error && <p className="w-full text-sm text-red-600">{error}</p>}
+        </form>
 
-        {!loading && !error && events.length === 0 && (
-          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-            <p className="text-yellow-800">No events found</p>
+        <div className="mt-4 flex items-center justify-between">
+          <div className="flex gap-6">
+            <Link href="/sessions" className="text-blue-600 hover:underline">
+              Browse all recordings →
+            </Link>
+            <Link href="/import" className="text-blue-600 hover:underline">
+              Import a recording file →
+            </Link>
           </div>
-        )}
+          <CacheControls />
+        </div>
       </div>
     </main>
   )
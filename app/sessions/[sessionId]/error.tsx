@@ -0,0 +1,26 @@
+'use client'
+
+export default function SessionError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string }
+  reset: () => void
+}) {
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800 font-semibold">Error</p>
+          <p className="text-red-600 mb-4">{error.message || 'Failed to display this session'}</p>
+          <button
+            onClick={reset}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
+          >
+            Try again
+          </button>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,57 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import SessionReplay from '@/components/SessionReplay'
+import { isValidProjectId, isValidSessionId, parseTimeParam } from '@/lib/routes'
+import { isAdminViewer } from '@/lib/server/viewer'
+
+interface SessionPageProps {
+  params: Promise<{ sessionId: string }>
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}
+
+export async function generateMetadata({ params }: SessionPageProps): Promise<Metadata> {
+  const { sessionId } = await params
+  return { title: `Session ${sessionId} · Converlytik Session Replay` }
+}
+
+export default async function SessionPage({ params, searchParams }: SessionPageProps) {
+  const { sessionId } = await params
+  const { projectId, t } = await searchParams
+
+  if (!isValidSessionId(sessionId)) {
+    notFound()
+  }
+
+  if (projectId !== undefined && (typeof projectId !== 'string' || !isValidProjectId(projectId))) {
+    notFound()
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            ← Back
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Converlytik Session Replay Player
+          </h1>
+          <p className="text-sm text-gray-500 font-mono">
+            {sessionId}
+            {projectId && ` · project ${projectId}`}
+          </p>
+        </div>
+
+        {/* Keyed so loading/error state never leaks between sessions */}
+        <SessionReplay
+          key={`${projectId ?? ''}:${sessionId}`}
+          sessionId={sessionId}
+          projectId={projectId}
+          initialTime={parseTimeParam(t) ?? undefined}
+          isAdmin={await isAdminViewer()}
+        />
+      </div>
+    </main>
+  )
+}
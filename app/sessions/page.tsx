@@ -0,0 +1,41 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import RecordingsBrowser from '@/components/RecordingsBrowser'
+import { filtersFromSearchParams, isValidProjectId } from '@/lib/routes'
+
+export const metadata: Metadata = {
+  title: 'Recordings · Converlytik Session Replay',
+}
+
+interface SessionsPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}
+
+export default async function SessionsPage({ searchParams }: SessionsPageProps) {
+  const query = await searchParams
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (typeof value === 'string') params.set(key, value)
+  }
+
+  const projectId = params.get('projectId') ?? undefined
+  if (projectId !== undefined && !isValidProjectId(projectId)) {
+    notFound()
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            ← Back
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Session recordings</h1>
+        </div>
+
+        <RecordingsBrowser initialFilters={filtersFromSearchParams(params)} projectId={projectId} />
+      </div>
+    </main>
+  )
+}
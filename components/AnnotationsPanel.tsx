@@ -0,0 +1,218 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDuration, parseDuration } from '@/lib/format'
+import type { Annotation, AnnotationInput, AnnotationPatch } from '@/lib/types'
+
+interface AnnotationsPanelProps {
+  annotations: Annotation[]
+  /** Epoch ms the timeline starts at */
+  timelineStart: number
+  /** Playback position, in ms from the start of the timeline */
+  getCurrentTime: () => number
+  /** Called with a time in ms from the start of the timeline */
+  onSeek: (time: number) => void
+  onCreate: (input: AnnotationInput) => Promise<void>
+  onUpdate: (annotationId: string, patch: AnnotationPatch) => Promise<void>
+  onDelete: (annotationId: string) => Promise<void>
+}
+
+interface Draft {
+  text: string
+  /** Times as typed, relative to the start of the timeline */
+  from: string
+  until: string
+}
+
+/**
+ * Notes on the recording: add one at the current time, edit, delete and jump to them
+ */
+export default function AnnotationsPanel({
+  annotations,
+  timelineStart,
+  getCurrentTime,
+  onSeek,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: AnnotationsPanelProps) {
+  const [text, setText] = useState('')
+  const [isRange, setIsRange] = useState(false)
+  const [until, setUntil] = useState('')
+  const [editing, setEditing] = useState<{ id: string, draft: Draft } | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true)
+      setError(null)
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // Parses a typed time into epoch ms, or throws a message for the user
+  const parseTime = (value: string, field: string): number => {
+    const time = parseDuration(value)
+    if (time === null) throw new Error(`${field} must be a time like 3:42`)
+    return timelineStart + time
+  }
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const timestamp = timelineStart + getCurrentTime()
+      const endTimestamp = isRange ? parseTime(until, 'Until') : undefined
+      if (endTimestamp !== undefined && endTimestamp <= timestamp) {
+        throw new Error('The end of the range must be after the current time')
+      }
+      await onCreate({ timestamp, endTimestamp, text })
+      setText('')
+      setUntil('')
+      setIsRange(false)
+    })
+  }
+
+  const startEditing = (annotation: Annotation) => {
+    setEditing({
+      id: annotation.id,
+      draft: {
+        text: annotation.text,
+        from: formatDuration(annotation.timestamp - timelineStart),
+        until: annotation.endTimestamp !== undefined ? formatDuration(annotation.endTimestamp - timelineStart) : '',
+      },
+    })
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+    const { id, draft } = editing
+    run(async () => {
+      const timestamp = parseTime(draft.from, 'From')
+      const endTimestamp = draft.until.trim() ? parseTime(draft.until, 'Until') : null
+      if (endTimestamp !== null && endTimestamp <= timestamp) {
+        throw new Error('Until must be after From')
+      }
+      await onUpdate(id, { text: draft.text, timestamp, endTimestamp })
+      setEditing(null)
+    })
+  }
+
+  const updateDraft = (changes: Partial<Draft>) => {
+    setEditing((current) => current && { ...current, draft: { ...current.draft, ...changes } })
+  }
+
+  return (
+    <div className="flex flex-col h-full min-h-0 text-sm text-gray-900">
+      <form onSubmit={handleAdd} className="p-2 border-b border-gray-200 flex flex-col gap-2">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Note at the current time"
+          aria-label="New note"
+          rows={2}
+          className="w-full px-2 py-1 border border-gray-300 rounded"
+        />
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-gray-700">
+            <input type="checkbox" checked={isRange} onChange={(e) => setIsRange(e.target.checked)} />
+            Until
+          </label>
+          {isRange && (
+            <input
+              value={until}
+              onChange={(e) => setUntil(e.target.value)}
+              placeholder="3:42"
+              aria-label="End of the range"
+              className="w-20 px-2 py-1 border border-gray-300 rounded font-mono"
+            />
+          )}
+          <button
+            type="submit"
+            disabled={busy || !text.trim()}
+            className="ml-auto px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors disabled:opacity-40"
+          >
+            Add note
+          </button>
+        </div>
+        {error && <p className="text-red-600">{error}</p>}
+      </form>
+
+      {annotations.length === 0 ? (
+        <p className="p-4 text-gray-500">No notes yet</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {annotations.map((annotation) => (
+            <li key={annotation.id} className="p-2">
+              {editing?.id === annotation.id ? (
+                <form onSubmit={handleSave} className="flex flex-col gap-2">
+                  <textarea
+                    value={editing.draft.text}
+                    onChange={(e) => updateDraft({ text: e.target.value })}
+                    aria-label="Note"
+                    rows={2}
+                    className="w-full px-2 py-1 border border-gray-300 rounded"
+                  />
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={editing.draft.from}
+                      onChange={(e) => updateDraft({ from: e.target.value })}
+                      aria-label="From"
+                      className="w-20 px-2 py-1 border border-gray-300 rounded font-mono"
+                    />
+                    <span>–</span>
+                    <input
+                      value={editing.draft.until}
+                      onChange={(e) => updateDraft({ until: e.target.value })}
+                      placeholder="until"
+                      aria-label="Until (optional)"
+                      className="w-20 px-2 py-1 border border-gray-300 rounded font-mono"
+                    />
+                    <button
+                      type="submit"
+                      disabled={busy || !editing.draft.text.trim()}
+                      className="ml-auto px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-40"
+                    >
+                      Save
+                    </button>
+                    <button type="button" onClick={() => setEditing(null)} className="px-2 py-1 rounded hover:bg-gray-100">
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onSeek(annotation.timestamp - timelineStart)}
+                    className="shrink-0 font-mono text-blue-600 hover:underline"
+                  >
+                    {formatDuration(annotation.timestamp - timelineStart)}
+                    {annotation.endTimestamp !== undefined && `–${formatDuration(annotation.endTimestamp - timelineStart)}`}
+                  </button>
+                  <p className="flex-1 whitespace-pre-wrap break-words">{annotation.text}</p>
+                  <div className="shrink-0 flex gap-1 text-xs">
+                    <button onClick={() => startEditing(annotation)} className="text-gray-500 hover:text-gray-900">
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => run(() => onDelete(annotation.id))}
+                      disabled={busy}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
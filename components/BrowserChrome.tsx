@@ -0,0 +1,75 @@
+'use client'
+
+import { formatDuration } from '@/lib/format'
+import { deviceType, itemAt, type DeviceType, type PageVisit, type ViewportSize } from '@/lib/navigation'
+
+interface BrowserChromeProps {
+  visits: PageVisit[]
+  viewports: ViewportSize[]
+  /** Playback position, in ms from the start of the timeline */
+  currentTime: number
+  /** Epoch ms the timeline starts at */
+  timelineStart: number
+  /** Called with a time in ms from the start of the timeline */
+  onSeek: (time: number) => void
+}
+
+const DEVICE_BADGES: Record<DeviceType, string> = {
+  mobile: '📱 Mobile',
+  tablet: '📲 Tablet',
+  desktop: '🖥 Desktop',
+}
+
+/**
+ * Browser-style address bar showing the page and viewport at the current time
+ */
+export default function BrowserChrome({ visits, viewports, currentTime, timelineStart, onSeek }: BrowserChromeProps) {
+  const now = timelineStart + currentTime
+  // Before the first visit starts, show the first page rather than nothing
+  const visit = itemAt(visits, now) ?? visits[0]
+  const viewport = itemAt(viewports, now) ?? viewports[0]
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 bg-gray-200 border border-b-0 border-gray-300 rounded-t text-sm">
+      <div className="flex gap-1.5 shrink-0" aria-hidden="true">
+        <span className="w-3 h-3 rounded-full bg-red-400" />
+        <span className="w-3 h-3 rounded-full bg-yellow-400" />
+        <span className="w-3 h-3 rounded-full bg-green-400" />
+      </div>
+
+      <div
+        className="flex-1 min-w-0 px-3 py-1 bg-white rounded-full text-gray-800 font-mono truncate"
+        title={visit?.href}
+        aria-label="Current URL"
+      >
+        {visit?.href ?? 'Unknown page'}
+      </div>
+
+      {visits.length > 1 && (
+        <select
+          value={visit ? visits.indexOf(visit) : 0}
+          onChange={(e) => onSeek(visits[Number(e.target.value)].timestamp - timelineStart)}
+          aria-label="Page history"
+          className="shrink-0 max-w-48 px-2 py-1 bg-white border border-gray-300 rounded text-gray-800"
+        >
+          {visits.map((page, index) => (
+            <option key={`${index}-${page.timestamp}`} value={index}>
+              {formatDuration(page.timestamp - timelineStart)} · {page.href}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {viewport && (
+        <>
+          <span className="shrink-0 text-gray-600 font-mono">
+            {viewport.width}×{viewport.height}
+          </span>
+          <span className="shrink-0 px-2 py-0.5 rounded bg-gray-700 text-white text-xs">
+            {DEVICE_BADGES[deviceType(viewport.width)]}
+          </span>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { clearCache, getCacheStats, type CacheStats } from '@/lib/cache'
+import { formatBytes } from '@/lib/format'
+
+/**
+ * Shows how much of the snapshot cache is in use and lets the user clear it
+ */
+export default function CacheControls() {
+  const [stats, setStats] = useState<CacheStats | null>(null)
+  const [clearing, setClearing] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    getCacheStats().then((next) => {
+      if (!cancelled) setStats(next)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const handleClear = async () => {
+    try {
+      setClearing(true)
+      await clearCache()
+      setStats(await getCacheStats())
+    } catch (error) {
+      console.error('Error clearing cache:', error)
+    } finally {
+      setClearing(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-gray-600">
+      <span>
+        Cache: {stats ? `${stats.entries} blob${stats.entries === 1 ? '' : 's'}, ${formatBytes(stats.bytes)}` : '…'}
+      </span>
+      <button
+        onClick={handleClear}
+        disabled={clearing || !stats || stats.entries === 0}
+        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-40"
+      >
+        {clearing ? 'Clearing…' : 'Clear cache'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,403 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import Player, { type PlayerHandle } from '@/components/Player'
+import { fetchAnnotations, fetchMaskedSession, fetchSessionData } from '@/lib/api'
+import { isFullSnapshot, type RecordingEvent } from '@/lib/events'
+import { formatDuration } from '@/lib/format'
+import { annotationMarkers, extractMarkers, type TimelineMarker } from '@/lib/markers'
+import { sessionPath } from '@/lib/routes'
+
+interface CompareViewProps {
+  sessionIds: [string, string]
+  projectId?: string
+  /** Admins see recordings unmasked, like on the session page */
+  isAdmin?: boolean
+}
+
+type Alignment = 'start' | 'anchor'
+
+interface SideConfig {
+  /** Marker whose moment lines up with the other side's anchor */
+  anchorId: string | null
+  /** Extra shift of this side, in ms (positive: this side runs ahead) */
+  offset: number
+}
+
+interface LoadedSession {
+  events: RecordingEvent[]
+  /** The session's annotations, as timeline markers */
+  notes: TimelineMarker[]
+  percent: number
+  error: string | null
+}
+
+/**
+ * Where each side sits on the shared timeline. A side is at
+ * `sharedTime + shifts[i]` in its own recording.
+ */
+interface Layout {
+  shifts: number[]
+  durations: number[]
+  start: number
+  end: number
+}
+
+const SPEEDS = [0.5, 1, 2, 4]
+const SIDE_LABELS = ['A', 'B']
+// Marker types that make sense as an alignment point
+const ANCHOR_TYPES = new Set(['navigation', 'error', 'custom', 'annotation'])
+// How far a side may drift from the shared clock before it is re-seeked
+const DRIFT_TOLERANCE_MS = 500
+
+function formatOffset(ms: number): string {
+  return `${ms < 0 ? '-' : ''}${formatDuration(Math.abs(ms))}`
+}
+
+/**
+ * Loads a whole session for comparison, masked the same way as on the session page
+ */
+function useComparedSession(sessionId: string, projectId: string | undefined, masked: boolean): LoadedSession {
+  const [session, setSession] = useState<LoadedSession>({ events: [], notes: [], percent: 0, error: null })
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    async function load() {
+      // Notes are optional; the comparison works without them
+      const annotations = fetchAnnotations(sessionId, { projectId, signal: controller.signal }).catch((err) => {
+        if (!controller.signal.aborted) console.warn(`Failed to load annotations of ${sessionId}:`, err)
+        return []
+      })
+      try {
+        const { events } = await (masked ? fetchMaskedSession : fetchSessionData)(sessionId, {
+          projectId,
+          signal: controller.signal,
+          onProgress: (progress) => setSession((prev) => ({ ...prev, percent: progress.percent })),
+        })
+        const notes = annotationMarkers(await annotations)
+        if (controller.signal.aborted) return
+        setSession({ events, notes, percent: 100, error: null })
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error(`Error loading session ${sessionId}:`, err)
+        setSession((prev) => ({ ...prev, error: err instanceof Error ? err.message : 'Failed to load session' }))
+      }
+    }
+
+    load()
+    return () => controller.abort()
+  }, [sessionId, projectId, masked])
+
+  return session
+}
+
+/**
+ * Markers of a session that can be picked as its anchor, notes included
+ */
+function anchorMarkers(session: LoadedSession): TimelineMarker[] {
+  return [...extractMarkers(session.events), ...session.notes]
+    .filter((marker) => ANCHOR_TYPES.has(marker.type))
+    .sort((a, b) => a.timestamp - b.timestamp)
+}
+
+function computeLayout(
+  anchors: TimelineMarker[][],
+  starts: number[],
+  durations: number[],
+  alignment: Alignment,
+  sides: SideConfig[]
+): Layout {
+  const shifts = sides.map((side, i) => {
+    const anchor = alignment === 'anchor' ? anchors[i].find((marker) => marker.id === side.anchorId) : undefined
+    return (anchor ? anchor.timestamp - starts[i] : 0) + side.offset
+  })
+  return {
+    shifts,
+    durations,
+    start: Math.min(...shifts.map((shift) => -shift)),
+    end: Math.max(...shifts.map((shift, i) => durations[i] - shift)),
+  }
+}
+
+/**
+ * Two players side by side behind one transport. The shared clock runs in
+ * this component; each side is started, paused and re-seeked to follow it.
+ */
+export default function CompareView({ sessionIds, projectId, isAdmin = false }: CompareViewProps) {
+  const sessionA = useComparedSession(sessionIds[0], projectId, !isAdmin)
+  const sessionB = useComparedSession(sessionIds[1], projectId, !isAdmin)
+  const sessions = [sessionA, sessionB]
+
+  const playerA = useRef<PlayerHandle>(null)
+  const playerB = useRef<PlayerHandle>(null)
+  const playerRefs = [playerA, playerB]
+
+  const [alignment, setAlignment] = useState<Alignment>('start')
+  const [sides, setSides] = useState<SideConfig[]>([{ anchorId: null, offset: 0 }, { anchorId: null, offset: 0 }])
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [time, setTime] = useState(0)
+  const [readySides, setReadySides] = useState([false, false])
+
+  const anchorsA = useMemo(() => anchorMarkers(sessionA), [sessionA])
+  const anchorsB = useMemo(() => anchorMarkers(sessionB), [sessionB])
+  const anchors = [anchorsA, anchorsB]
+  const starts = sessions.map((session) => session.events[0]?.timestamp ?? 0)
+  const durations = sessions.map((session) =>
+    Math.max(0, (session.events[session.events.length - 1]?.timestamp ?? 0) - (session.events[0]?.timestamp ?? 0)))
+  const layout = computeLayout(anchors, starts, durations, alignment, sides)
+
+  // The clock runs outside React renders; these mirror what it needs
+  const timeRef = useRef(0)
+  const speedRef = useRef(speed)
+  const layoutRef = useRef(layout)
+  // Whether each side is currently meant to be playing
+  const activeRef = useRef([false, false])
+  useEffect(() => {
+    speedRef.current = speed
+    layoutRef.current = layout
+  })
+
+  const ready = readySides.every(Boolean)
+
+  /**
+   * Puts both sides at their position for shared time `sharedTime`
+   */
+  const applyTime = (sharedTime: number, play: boolean, target: Layout = layout) => {
+    const clamped = Math.max(target.start, Math.min(sharedTime, target.end))
+    timeRef.current = clamped
+    setTime(clamped)
+
+    target.shifts.forEach((shift, i) => {
+      const player = playerRefs[i].current
+      if (!player) return
+      const sideTime = clamped + shift
+      const inside = sideTime >= 0 && sideTime < target.durations[i]
+      player.pause()
+      player.seek(Math.max(0, Math.min(sideTime, target.durations[i])))
+      if (play && inside) player.play()
+      activeRef.current[i] = play && inside
+    })
+  }
+
+  useEffect(() => {
+    if (!playing) return
+
+    const players = [playerA, playerB]
+    let frame = 0
+    let last: number | null = null
+    const tick = (now: number) => {
+      const current = layoutRef.current
+      const elapsed = last === null ? 0 : now - last
+      const sharedTime = Math.min(timeRef.current + elapsed * speedRef.current, current.end)
+      last = now
+      timeRef.current = sharedTime
+
+      current.shifts.forEach((shift, i) => {
+        const player = players[i].current
+        if (!player) return
+        const sideTime = sharedTime + shift
+        const inside = sideTime >= 0 && sideTime < current.durations[i]
+        if (inside && !activeRef.current[i]) {
+          // This side's part of the shared timeline starts now
+          player.seek(sideTime)
+          player.play()
+          activeRef.current[i] = true
+        } else if (!inside && activeRef.current[i]) {
+          player.pause()
+          activeRef.current[i] = false
+        } else if (inside && Math.abs(player.getCurrentTime() - sideTime) > DRIFT_TOLERANCE_MS) {
+          player.seek(sideTime)
+        }
+      })
+
+      // Coarse enough that the page re-renders a few times a second, not every frame
+      setTime(Math.floor(sharedTime / 100) * 100)
+      if (sharedTime >= current.end) {
+        setPlaying(false)
+        return
+      }
+      frame = requestAnimationFrame(tick)
+    }
+
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [playing])
+
+  const handlePlayPause = () => {
+    if (playing) {
+      setPlaying(false)
+      applyTime(timeRef.current, false)
+      return
+    }
+    applyTime(timeRef.current >= layout.end ? layout.start : timeRef.current, true)
+    setPlaying(true)
+  }
+
+  const handleSpeedChange = (next: number) => {
+    setSpeed(next)
+    playerRefs.forEach((playerRef) => playerRef.current?.setSpeed(next))
+  }
+
+  const updateConfig = (nextAlignment: Alignment, nextSides: SideConfig[], sharedTime: number) => {
+    setAlignment(nextAlignment)
+    setSides(nextSides)
+    applyTime(sharedTime, playing, computeLayout(anchors, starts, durations, nextAlignment, nextSides))
+  }
+
+  const handleAlignmentChange = (next: Alignment) => {
+    // Default anchors: the first navigation on each side
+    const nextSides = sides.map((side, i) => ({
+      ...side,
+      anchorId: side.anchorId ?? anchors[i].find((marker) => marker.type === 'navigation')?.id ?? anchors[i][0]?.id ?? null,
+    }))
+    // Jump to the aligned moment
+    updateConfig(next, nextSides, 0)
+  }
+
+  const handleSideChange = (index: number, patch: Partial<SideConfig>) => {
+    const nextSides = sides.map((side, i) => (i === index ? { ...side, ...patch } : side))
+    // A new anchor jumps to the aligned moment; an offset keeps the current position
+    updateConfig(alignment, nextSides, patch.anchorId !== undefined ? 0 : timeRef.current)
+  }
+
+  const handleSideSeek = (index: number, sideTime: number) => {
+    applyTime(sideTime - layout.shifts[index], playing)
+  }
+
+  const handleReady = (index: number) => {
+    setReadySides((prev) => prev.map((value, i) => value || i === index))
+    playerRefs[index].current?.setSpeed(speedRef.current)
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Shared transport */}
+      <div className="bg-gray-900 text-white p-4 rounded-lg flex flex-wrap items-center gap-4" role="group" aria-label="Shared playback controls">
+        <button
+          onClick={handlePlayPause}
+          disabled={!ready}
+          aria-label={playing ? 'Pause both' : 'Play both'}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded transition-colors disabled:opacity-40"
+        >
+          {playing ? '⏸ Pause' : '▶ Play'}
+        </button>
+
+        <div className="flex items-center gap-2" role="group" aria-labelledby="compare-speed-label">
+          <span id="compare-speed-label">Speed:</span>
+          {SPEEDS.map((option) => (
+            <button
+              key={option}
+              onClick={() => handleSpeedChange(option)}
+              aria-pressed={speed === option}
+              aria-label={`${option}x speed`}
+              className={`px-3 py-1 rounded transition-colors ${
+                speed === option ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 flex items-center gap-2 min-w-[16rem]">
+          <span className="text-sm text-gray-400 tabular-nums">{formatOffset(time)}</span>
+          <input
+            type="range"
+            min={layout.start}
+            max={layout.end}
+            step={100}
+            value={time}
+            disabled={!ready}
+            onChange={(e) => applyTime(Number(e.target.value), playing)}
+            aria-label="Shared position"
+            aria-valuetext={`${formatOffset(time)} of ${formatOffset(layout.end)}`}
+            className="flex-1"
+          />
+          <span className="text-sm text-gray-400 tabular-nums">{formatOffset(layout.end)}</span>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          Align by
+          <select
+            value={alignment}
+            onChange={(e) => handleAlignmentChange(e.target.value as Alignment)}
+            className="bg-gray-700 rounded px-2 py-1"
+          >
+            <option value="start">Session start</option>
+            <option value="anchor">Anchor event</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {sessions.map((session, i) => {
+          const sessionId = sessionIds[i]
+          const playable = session.events.some(isFullSnapshot)
+          return (
+            <section key={SIDE_LABELS[i]} className="bg-white rounded-lg shadow-lg p-4 flex flex-col gap-3 min-w-0" aria-label={`Session ${SIDE_LABELS[i]}`}>
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <span className="font-bold text-gray-900">{SIDE_LABELS[i]}</span>
+                <Link href={sessionPath(sessionId, { projectId })} className="font-mono text-xs text-blue-600 hover:underline truncate">
+                  {sessionId}
+                </Link>
+                {alignment === 'anchor' && (
+                  <label className="flex items-center gap-1">
+                    Anchor
+                    <select
+                      value={sides[i].anchorId ?? ''}
+                      onChange={(e) => handleSideChange(i, { anchorId: e.target.value || null })}
+                      className="border border-gray-300 rounded px-1 py-0.5 max-w-[16rem]"
+                    >
+                      <option value="">Session start</option>
+                      {anchors[i].map((marker) => (
+                        <option key={marker.id} value={marker.id}>
+                          {formatDuration(marker.timestamp - starts[i])} {marker.label}{marker.detail ? `: ${marker.detail}` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <label className="flex items-center gap-1">
+                  Offset (s)
+                  <input
+                    type="number"
+                    step={0.1}
+                    value={sides[i].offset / 1000}
+                    onChange={(e) => handleSideChange(i, { offset: Math.round(Number(e.target.value) * 1000) || 0 })}
+                    className="w-20 border border-gray-300 rounded px-1 py-0.5"
+                  />
+                </label>
+                <span className="ml-auto text-xs text-gray-500 tabular-nums">
+                  {formatOffset(time + layout.shifts[i])}
+                </span>
+              </div>
+
+              {session.error ? (
+                <p className="text-red-600">{session.error}</p>
+              ) : playable ? (
+                <div className="h-[75vh] min-h-[600px]">
+                  <Player
+                    ref={playerRefs[i]}
+                    events={session.events}
+                    extraMarkers={session.notes}
+                    sharedTransport
+                    showSidePanel={false}
+                    onSeek={(sideTime) => handleSideSeek(i, sideTime)}
+                    onReady={() => handleReady(i)}
+                  />
+                </div>
+              ) : session.percent < 100 ? (
+                <p className="text-gray-600">Loading session recording... {session.percent}%</p>
+              ) : (
+                <p className="text-yellow-800">This recording has no full snapshot, so there is nothing to replay</p>
+              )}
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { ConsoleEntry, ConsoleLevel } from '@/lib/console'
+import { formatDuration } from '@/lib/format'
+
+interface ConsolePanelProps {
+  entries: ConsoleEntry[]
+  /** Playback position, in ms from the start of the timeline */
+  currentTime: number
+  /** Epoch ms the timeline starts at */
+  timelineStart: number
+  /** Called with a time in ms from the start of the timeline */
+  onSeek: (time: number) => void
+}
+
+const LEVEL_STYLES: Partial<Record<ConsoleLevel, string>> = {
+  error: 'text-red-700 bg-red-50',
+  assert: 'text-red-700 bg-red-50',
+  warn: 'text-yellow-800 bg-yellow-50',
+  info: 'text-blue-700',
+  debug: 'text-gray-500',
+}
+
+/**
+ * Console output of the recording, kept in sync with playback
+ */
+export default function ConsolePanel({ entries, currentTime, timelineStart, onSeek }: ConsolePanelProps) {
+  const [hiddenLevels, setHiddenLevels] = useState<Set<ConsoleLevel>>(new Set())
+  const [query, setQuery] = useState('')
+  const listRef = useRef<HTMLUListElement>(null)
+  const currentRef = useRef<HTMLLIElement>(null)
+
+  const levels = useMemo(() => [...new Set(entries.map((entry) => entry.level))], [entries])
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    return entries.filter((entry) =>
+      !hiddenLevels.has(entry.level) && (!needle || entry.message.toLowerCase().includes(needle))
+    )
+  }, [entries, hiddenLevels, query])
+
+  // The current entry is the last one playback has passed
+  const now = timelineStart + currentTime
+  let currentId: number | null = null
+  for (const entry of filtered) {
+    if (entry.timestamp > now) break
+    currentId = entry.id
+  }
+
+  // Keep the current entry in view by scrolling the list only, never the page
+  useEffect(() => {
+    const list = listRef.current
+    const item = currentRef.current
+    if (!list || !item) return
+    if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = item.offsetTop - list.clientHeight / 2
+    }
+  }, [currentId])
+
+  const toggleLevel = (level: ConsoleLevel) => {
+    setHiddenLevels((hidden) => {
+      const next = new Set(hidden)
+      if (next.has(level)) next.delete(level)
+      else next.add(level)
+      return next
+    })
+  }
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="p-2 border-b border-gray-200 flex flex-col gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search console"
+          className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+        />
+        <div className="flex flex-wrap gap-1 text-xs">
+          {levels.map((level) => (
+            <button
+              key={level}
+              onClick={() => toggleLevel(level)}
+              aria-pressed={!hiddenLevels.has(level)}
+              className={`px-2 py-0.5 rounded transition-colors ${
+                hiddenLevels.has(level) ? 'bg-gray-100 text-gray-400' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+              }`}
+            >
+              {level} ({entries.filter((entry) => entry.level === level).length})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">
+          {entries.length === 0 ? 'No console output was recorded' : 'No entries match the filters'}
+        </p>
+      ) : (
+        <ul ref={listRef} className="relative flex-1 overflow-y-auto text-xs font-mono divide-y divide-gray-100">
+          {filtered.map((entry) => {
+            const isCurrent = entry.id === currentId
+            const isFuture = entry.timestamp > now
+            return (
+              <li
+                key={entry.id}
+                ref={isCurrent ? currentRef : undefined}
+                className={`${LEVEL_STYLES[entry.level] ?? 'text-gray-800'} ${
+                  isCurrent ? 'ring-2 ring-inset ring-blue-500' : ''
+                } ${isFuture ? 'opacity-50' : ''}`}
+              >
+                <button
+                  onClick={() => onSeek(entry.timestamp - timelineStart)}
+                  className="w-full text-left px-2 py-1 flex gap-2 hover:bg-black/5"
+                >
+                  <span className="text-gray-400 shrink-0">{formatDuration(entry.timestamp - timelineStart)}</span>
+                  <span className="uppercase shrink-0 w-10">{entry.level}</span>
+                  <span className="break-all whitespace-pre-wrap">{entry.message}</span>
+                </button>
+                {entry.trace.length > 0 && (
+                  <details className="px-2 pb-1">
+                    <summary className="cursor-pointer text-gray-400">Stack trace</summary>
+                    <pre className="whitespace-pre-wrap break-all text-gray-500">{entry.trace.join('\n')}</pre>
+                  </details>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
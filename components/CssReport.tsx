@@ -0,0 +1,74 @@
+'use client'
+
+import type { CssDiagnostic, CssFixKind } from '@/lib/css'
+import { formatDuration } from '@/lib/format'
+
+interface CssReportProps {
+  diagnostics: CssDiagnostic[]
+  /** Timestamp that times are shown relative to */
+  recordingStart: number
+}
+
+const KIND_LABELS: Record<CssFixKind, string> = {
+  repaired: 'repaired',
+  dropped: 'dropped',
+  rewritten: 'URLs rewritten',
+}
+
+const KIND_COLORS: Record<CssFixKind, string> = {
+  repaired: 'text-blue-700',
+  dropped: 'text-red-700',
+  rewritten: 'text-gray-700',
+}
+
+/**
+ * Lists what the CSS sanitizer changed while the recording was processed
+ */
+export default function CssReport({ diagnostics, recordingStart }: CssReportProps) {
+  if (diagnostics.length === 0) return null
+
+  const counts = diagnostics.reduce<Partial<Record<CssFixKind, number>>>((acc, diagnostic) => {
+    acc[diagnostic.kind] = (acc[diagnostic.kind] ?? 0) + 1
+    return acc
+  }, {})
+  const summary = (Object.keys(KIND_LABELS) as CssFixKind[])
+    .filter((kind) => counts[kind])
+    .map((kind) => `${counts[kind]} ${KIND_LABELS[kind]}`)
+    .join(', ')
+
+  return (
+    <details className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+      <summary className="text-blue-800 cursor-pointer">
+        Fixed recorded CSS: {summary}
+      </summary>
+      <div className="mt-2 max-h-60 overflow-y-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="sticky top-0 bg-blue-50 text-xs text-blue-900">
+            <tr>
+              <th className="pr-3 font-semibold">Time</th>
+              <th className="pr-3 font-semibold">Node</th>
+              <th className="pr-3 font-semibold">Change</th>
+              <th className="font-semibold">CSS</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diagnostics.map((diagnostic, i) => (
+              <tr key={i} className="align-top border-t border-blue-100">
+                <td className="pr-3 py-1 font-mono text-gray-600 whitespace-nowrap">
+                  {formatDuration(Math.max(0, diagnostic.timestamp - recordingStart))}
+                </td>
+                <td className="pr-3 py-1 font-mono text-gray-600 whitespace-nowrap">
+                  #{diagnostic.nodeId} {diagnostic.target}
+                </td>
+                <td className={`pr-3 py-1 whitespace-nowrap ${KIND_COLORS[diagnostic.kind]}`}>
+                  {diagnostic.reason}
+                </td>
+                <td className="py-1 font-mono text-xs text-gray-700 break-all">{diagnostic.excerpt}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,452 @@
+'use client'
+
+import { useDeferredValue, useEffect, useMemo, useRef, useState, type UIEvent } from 'react'
+import type { Diagnostic, DiagnosticLevel } from '@/lib/diagnostics'
+import {
+  EventType,
+  eventKindNames,
+  IncrementalSource,
+  isCustom,
+  isIncremental,
+  isMeta,
+  isPlugin,
+  MouseInteractions,
+  NodeType,
+  type RecordingEvent,
+} from '@/lib/events'
+import { formatDuration } from '@/lib/format'
+import { eventNodeIds, NodeIndex } from '@/lib/nodes'
+import { describeElement } from '@/lib/selectors'
+
+interface EventInspectorProps {
+  events: RecordingEvent[]
+  diagnostics: Diagnostic[]
+  /** Epoch ms the timeline starts at */
+  timelineStart: number
+  /** Playback position in ms from the start of the timeline; absent when nothing is playing */
+  getCurrentTime?: () => number
+  /** Called with a time in ms from the start of the timeline */
+  onSeek?: (time: number) => void
+}
+
+interface Filters {
+  type: EventType | null
+  source: IncrementalSource | null
+  nodeId: number | null
+  query: string
+}
+
+const NO_FILTERS: Filters = { type: null, source: null, nodeId: null, query: '' }
+
+// The list only renders the rows in view, so every row has the same height
+const ROW_HEIGHT = 24
+const LIST_HEIGHT = 384
+const OVERSCAN = 10
+// How often the playing event is looked up, in ms
+const POLL_INTERVAL = 250
+
+// Children shown per object or array, and characters per string, before truncating
+const JSON_CHILD_LIMIT = 100
+const JSON_STRING_LIMIT = 300
+
+const LEVEL_STYLES: Record<DiagnosticLevel, string> = {
+  info: 'bg-gray-100 text-gray-700',
+  warning: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800',
+}
+
+function formatTime(ms: number): string {
+  const clamped = Math.max(0, Math.round(ms))
+  return `${formatDuration(clamped)}.${String(clamped % 1000).padStart(3, '0')}`
+}
+
+/**
+ * Index of the last event at or before `timestamp`, or -1
+ */
+function lastEventAt(events: RecordingEvent[], timestamp: number): number {
+  let low = 0
+  let high = events.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (events[mid].timestamp <= timestamp) low = mid + 1
+    else high = mid
+  }
+  return low - 1
+}
+
+/**
+ * Position in `sorted` of the last value at or before `value`, or -1
+ */
+function lastPositionAt(sorted: number[], value: number): number {
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (sorted[mid] <= value) low = mid + 1
+    else high = mid
+  }
+  return low - 1
+}
+
+/**
+ * Scrolls a row of the list into view unless it already is
+ */
+function scrollToRow(list: HTMLElement | null, position: number) {
+  if (!list || position < 0) return
+  const top = position * ROW_HEIGHT
+  if (top < list.scrollTop || top + ROW_HEIGHT > list.scrollTop + LIST_HEIGHT) {
+    list.scrollTop = Math.max(0, top - LIST_HEIGHT / 2)
+  }
+}
+
+/**
+ * One-line gist of an event's payload for the list
+ */
+function eventDetail(event: RecordingEvent): string {
+  if (isMeta(event)) return `${event.data.href} ${event.data.width}×${event.data.height}`
+  if (isCustom(event)) return event.data.tag
+  if (isPlugin(event)) return event.data.plugin
+  if (isIncremental(event, IncrementalSource.Mutation)) {
+    const { adds, removes, attributes, texts } = event.data
+    return `+${adds.length} −${removes.length} ~${attributes.length + texts.length}`
+  }
+  if (isIncremental(event, IncrementalSource.MouseInteraction)) {
+    return `${MouseInteractions[event.data.type]} on #${event.data.id}`
+  }
+  if (isIncremental(event, IncrementalSource.ViewportResize)) return `${event.data.width}×${event.data.height}`
+  if (isIncremental(event, IncrementalSource.Scroll)) return `#${event.data.id} to ${event.data.x}, ${event.data.y}`
+  return ''
+}
+
+function describeNode(nodes: NodeIndex, id: number): string | null {
+  const node = nodes.get(id)
+  if (!node) return null
+  return node.type === NodeType.Element ? describeElement(node, nodes.ancestors(id)) : NodeType[node.type]
+}
+
+function JsonValue({ name, value, depth = 0 }: { name?: string, value: unknown, depth?: number }) {
+  const [expanded, setExpanded] = useState(depth < 2)
+  const label = name !== undefined && <span className="text-purple-700">{name}: </span>
+
+  if (value === null || typeof value !== 'object') {
+    let text = JSON.stringify(value) ?? String(value)
+    const truncated = typeof value === 'string' && text.length > JSON_STRING_LIMIT
+    if (truncated) text = `${text.slice(0, JSON_STRING_LIMIT)}…" (${(value as string).length} chars)`
+    const color = typeof value === 'string' ? 'text-green-700' : typeof value === 'number' ? 'text-blue-700' : 'text-gray-500'
+    return (
+      <div className="break-all" title={truncated ? (value as string) : undefined}>
+        {label}<span className={color}>{text}</span>
+      </div>
+    )
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, i) => [String(i), item] as const) : Object.entries(value)
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}']
+  if (entries.length === 0) {
+    return <div>{label}<span className="text-gray-500">{open}{close}</span></div>
+  }
+
+  return (
+    <div>
+      <button onClick={() => setExpanded(!expanded)} className="text-left hover:bg-gray-100 rounded">
+        <span className="inline-block w-3 text-gray-400">{expanded ? '▾' : '▸'}</span>
+        {label}
+        <span className="text-gray-500">
+          {expanded ? open : `${open}…${close} ${entries.length} ${Array.isArray(value) ? 'items' : 'keys'}`}
+        </span>
+      </button>
+      {expanded && (
+        <div className="pl-4 border-l border-gray-200 ml-1">
+          {entries.slice(0, JSON_CHILD_LIMIT).map(([key, child]) => (
+            <JsonValue key={key} name={key} value={child} depth={depth + 1} />
+          ))}
+          {entries.length > JSON_CHILD_LIMIT && (
+            <div className="text-gray-500">and {entries.length - JSON_CHILD_LIMIT} more</div>
+          )}
+        </div>
+      )}
+      {expanded && <div className="text-gray-500">{close}</div>}
+    </div>
+  )
+}
+
+/**
+ * Developer view of the raw recording: every event with its type and source,
+ * the JSON of the selected one, and what went wrong while loading it
+ */
+export default function EventInspector({ events, diagnostics, timelineStart, getCurrentTime, onSeek }: EventInspectorProps) {
+  const [open, setOpen] = useState(false)
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS)
+  const [nodeInput, setNodeInput] = useState('')
+  const [selected, setSelected] = useState<number | null>(null)
+  const [current, setCurrent] = useState(-1)
+  const [follow, setFollow] = useState(false)
+  const [scrollTop, setScrollTop] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+  const query = useDeferredValue(filters.query.trim().toLowerCase())
+
+  const filtered = useMemo(() => {
+    const indices: number[] = []
+    events.forEach((event, i) => {
+      if (filters.type !== null && event.type !== filters.type) return
+      if (filters.source !== null && !isIncremental(event, filters.source)) return
+      if (filters.nodeId !== null && !eventNodeIds(event).includes(filters.nodeId)) return
+      if (query && !JSON.stringify(event).toLowerCase().includes(query)) return
+      indices.push(i)
+    })
+    return indices
+  }, [events, filters.type, filters.source, filters.nodeId, query])
+
+  const typeOptions = useMemo(() => [...new Set(events.map((event) => event.type))].sort((a, b) => a - b), [events])
+  const sourceOptions = useMemo(
+    () => [...new Set(events.flatMap((event) => (isIncremental(event) ? [event.data.source] : [])))].sort((a, b) => a - b),
+    [events]
+  )
+
+  // Tracks the event the replayer last applied while the inspector is open
+  const followRef = useRef({ follow, filtered })
+  useEffect(() => {
+    followRef.current = { follow, filtered }
+  }, [follow, filtered])
+  useEffect(() => {
+    if (!open || !getCurrentTime) return
+    let last = -1
+    const interval = setInterval(() => {
+      const index = lastEventAt(events, timelineStart + getCurrentTime())
+      if (index === last) return
+      last = index
+      setCurrent(index)
+      const { follow, filtered } = followRef.current
+      if (follow) scrollToRow(listRef.current, lastPositionAt(filtered, index))
+    }, POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [open, events, timelineStart, getCurrentTime])
+
+  const nodeLabels = useMemo(() => {
+    if (selected === null || !events[selected]) return []
+    const ids = eventNodeIds(events[selected])
+    if (ids.length === 0) return []
+    // Nodes as they were before the event, falling back to after it for the ones it adds
+    const nodes = new NodeIndex()
+    for (let i = 0; i < selected; i++) nodes.apply(events[i])
+    const before = ids.map((id) => describeNode(nodes, id))
+    nodes.apply(events[selected])
+    return ids.map((id, i) => ({ id, label: before[i] ?? describeNode(nodes, id) }))
+  }, [events, selected])
+
+  const revealEvent = (index: number) => {
+    setSelected(index)
+    let position = filtered.indexOf(index)
+    if (position === -1) {
+      setFilters(NO_FILTERS)
+      setNodeInput('')
+      position = index
+    }
+    // Wait for the list to render with the new filters
+    requestAnimationFrame(() => scrollToRow(listRef.current, position))
+  }
+
+  const handleDiagnosticClick = (diagnostic: Diagnostic) => {
+    if (diagnostic.timestamp === undefined) return
+    revealEvent(Math.max(0, lastEventAt(events, diagnostic.timestamp)))
+  }
+
+  const handleNodeInput = (value: string) => {
+    setNodeInput(value)
+    const id = Number(value)
+    setFilters({ ...filters, nodeId: value.trim() !== '' && Number.isInteger(id) ? id : null })
+  }
+
+  const filterByNode = (id: number) => {
+    setNodeInput(String(id))
+    setFilters({ ...filters, nodeId: id })
+  }
+
+  const counts = diagnostics.reduce<Record<DiagnosticLevel, number>>(
+    (acc, diagnostic) => ({ ...acc, [diagnostic.level]: acc[diagnostic.level] + 1 }),
+    { info: 0, warning: 0, error: 0 }
+  )
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const lastRow = Math.min(filtered.length, Math.ceil((scrollTop + LIST_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+  const selectedEvent = selected !== null ? events[selected] : undefined
+
+  return (
+    <details
+      open={open}
+      onToggle={(e) => setOpen(e.currentTarget.open)}
+      className="bg-gray-50 border border-gray-200 rounded-lg p-4 mt-6"
+    >
+      <summary className="text-gray-800 cursor-pointer">
+        Event inspector: {events.length} event{events.length === 1 ? '' : 's'}
+        {counts.error > 0 && <span className="text-red-700">, {counts.error} error{counts.error === 1 ? '' : 's'}</span>}
+        {counts.warning > 0 && <span className="text-yellow-700">, {counts.warning} warning{counts.warning === 1 ? '' : 's'}</span>}
+      </summary>
+
+      {open && (
+        <div className="mt-3 flex flex-col gap-3 text-sm text-gray-900">
+          {diagnostics.length > 0 && (
+            <ul className="max-h-40 overflow-y-auto flex flex-col gap-1">
+              {diagnostics.map((diagnostic, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => handleDiagnosticClick(diagnostic)}
+                    disabled={diagnostic.timestamp === undefined}
+                    className={`w-full text-left px-2 py-1 rounded ${LEVEL_STYLES[diagnostic.level]} disabled:cursor-default`}
+                  >
+                    <span className="font-semibold capitalize">{diagnostic.level}</span>
+                    {diagnostic.source !== undefined && <span> (blob {diagnostic.source + 1})</span>}
+                    {diagnostic.timestamp !== undefined && (
+                      <span className="font-mono"> at {formatTime(diagnostic.timestamp - timelineStart)}</span>
+                    )}
+                    : {diagnostic.message}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={filters.type ?? ''}
+              onChange={(e) => {
+                const type = e.target.value === '' ? null : (Number(e.target.value) as EventType)
+                setFilters({ ...filters, type, source: type === EventType.IncrementalSnapshot ? filters.source : null })
+              }}
+              aria-label="Event type"
+              className="px-2 py-1 border border-gray-300 rounded bg-white"
+            >
+              <option value="">All types</option>
+              {typeOptions.map((type) => (
+                <option key={type} value={type}>{EventType[type] ?? type}</option>
+              ))}
+            </select>
+            <select
+              value={filters.source ?? ''}
+              onChange={(e) => {
+                const source = e.target.value === '' ? null : (Number(e.target.value) as IncrementalSource)
+                setFilters({ ...filters, source, type: source === null ? filters.type : EventType.IncrementalSnapshot })
+              }}
+              aria-label="Incremental source"
+              className="px-2 py-1 border border-gray-300 rounded bg-white"
+            >
+              <option value="">All sources</option>
+              {sourceOptions.map((source) => (
+                <option key={source} value={source}>{IncrementalSource[source] ?? source}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={nodeInput}
+              onChange={(e) => handleNodeInput(e.target.value)}
+              placeholder="Node ID"
+              aria-label="Node ID"
+              className="w-24 px-2 py-1 border border-gray-300 rounded"
+            />
+            <input
+              type="search"
+              value={filters.query}
+              onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+              placeholder="Search event JSON"
+              className="flex-1 min-w-40 px-2 py-1 border border-gray-300 rounded"
+            />
+            {getCurrentTime && (
+              <label className="flex items-center gap-1 text-gray-700">
+                <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} />
+                Follow playback
+              </label>
+            )}
+            <span className="text-gray-500">{filtered.length} shown</span>
+          </div>
+
+          <div className="flex gap-3 min-h-0">
+            <div
+              ref={listRef}
+              onScroll={(e: UIEvent<HTMLDivElement>) => setScrollTop(e.currentTarget.scrollTop)}
+              style={{ height: LIST_HEIGHT }}
+              className="w-1/2 overflow-y-auto bg-white border border-gray-200 rounded font-mono text-xs"
+            >
+              <div className="relative" style={{ height: filtered.length * ROW_HEIGHT }}>
+                {filtered.slice(firstRow, lastRow).map((index, i) => {
+                  const event = events[index]
+                  const { type, source } = eventKindNames(event)
+                  const highlight = index === selected
+                    ? 'bg-blue-100'
+                    : index === current ? 'bg-green-100' : 'hover:bg-gray-50'
+                  return (
+                    <button
+                      key={index}
+                      onClick={() => setSelected(index)}
+                      style={{ top: (firstRow + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                      className={`absolute inset-x-0 px-2 flex items-center gap-2 text-left whitespace-nowrap ${highlight}`}
+                    >
+                      <span className="w-12 shrink-0 text-right text-gray-500">{index}</span>
+                      <span className="w-20 shrink-0 text-blue-700">{formatTime(event.timestamp - timelineStart)}</span>
+                      <span className="w-32 shrink-0 truncate">{type}</span>
+                      <span className="w-32 shrink-0 truncate text-gray-700">{source}</span>
+                      <span className="truncate text-gray-500">{eventDetail(event)}</span>
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+
+            <div
+              style={{ height: LIST_HEIGHT }}
+              className="w-1/2 overflow-auto bg-white border border-gray-200 rounded p-2"
+            >
+              {selectedEvent ? (
+                <div className="flex flex-col gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">
+                      #{selected} {Object.values(eventKindNames(selectedEvent)).filter(Boolean).join(' / ')}
+                    </span>
+                    <span className="font-mono text-blue-700">{formatTime(selectedEvent.timestamp - timelineStart)}</span>
+                    <span className="flex-1" />
+                    {onSeek && (
+                      <button
+                        onClick={() => onSeek(selectedEvent.timestamp - timelineStart)}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Seek here
+                      </button>
+                    )}
+                    <button
+                      onClick={() => navigator.clipboard.writeText(JSON.stringify(selectedEvent, null, 2))}
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      Copy JSON
+                    </button>
+                  </div>
+                  {nodeLabels.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {nodeLabels.map(({ id, label }) => (
+                        <button
+                          key={id}
+                          onClick={() => filterByNode(id)}
+                          title="Show the events that touch this node"
+                          className={`px-1.5 rounded text-xs font-mono ${
+                            filters.nodeId === id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+                          }`}
+                        >
+                          #{id}{label && <span className="opacity-70"> {label}</span>}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="font-mono text-xs">
+                    {/* Remounted per event so the tree starts out collapsed */}
+                    <JsonValue key={selected} value={selectedEvent} />
+                  </div>
+                </div>
+              ) : (
+                <p className="text-gray-500">Select an event to see its JSON</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </details>
+  )
+}
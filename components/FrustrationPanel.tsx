@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDuration } from '@/lib/format'
+import {
+  DEFAULT_FRUSTRATION_THRESHOLDS,
+  FRUSTRATION_KINDS,
+  type FrustrationKind,
+  type FrustrationSignal,
+  type FrustrationThresholds,
+} from '@/lib/frustration'
+
+interface FrustrationPanelProps {
+  signals: FrustrationSignal[]
+  thresholds: FrustrationThresholds
+  onThresholdsChange: (thresholds: FrustrationThresholds) => void
+  /** Epoch ms the timeline starts at */
+  timelineStart: number
+  /** Called with a time in ms from the start of the timeline */
+  onSeek: (time: number) => void
+}
+
+const KIND_STYLES: Record<FrustrationKind, string> = {
+  rage: 'bg-pink-100 text-pink-800',
+  dead: 'bg-gray-200 text-gray-800',
+  error: 'bg-red-100 text-red-800',
+}
+
+const THRESHOLD_FIELDS: { key: keyof FrustrationThresholds, label: string, unit: string }[] = [
+  { key: 'rageClickCount', label: 'Rage click: clicks', unit: '' },
+  { key: 'rageClickRadius', label: 'Rage click: radius', unit: 'px' },
+  { key: 'rageClickWindow', label: 'Rage click: within', unit: 'ms' },
+  { key: 'deadClickTimeout', label: 'Dead click: no reaction for', unit: 'ms' },
+  { key: 'errorClickWindow', label: 'Error click: error within', unit: 'ms' },
+]
+
+/**
+ * Rage, dead and error clicks of the recording, with the thresholds they were detected with
+ */
+export default function FrustrationPanel({
+  signals,
+  thresholds,
+  onThresholdsChange,
+  timelineStart,
+  onSeek,
+}: FrustrationPanelProps) {
+  const [hiddenKinds, setHiddenKinds] = useState<Set<FrustrationKind>>(new Set())
+
+  const counts = signals.reduce<Record<FrustrationKind, number>>(
+    (acc, signal) => ({ ...acc, [signal.kind]: acc[signal.kind] + 1 }),
+    { rage: 0, dead: 0, error: 0 }
+  )
+  const visible = signals.filter((signal) => !hiddenKinds.has(signal.kind))
+
+  const toggleKind = (kind: FrustrationKind) => {
+    setHiddenKinds((hidden) => {
+      const next = new Set(hidden)
+      if (next.has(kind)) next.delete(kind)
+      else next.add(kind)
+      return next
+    })
+  }
+
+  const handleThresholdChange = (key: keyof FrustrationThresholds, value: string) => {
+    const number = Number(value)
+    if (value === '' || !Number.isFinite(number) || number < (key === 'rageClickCount' ? 2 : 0)) return
+    onThresholdsChange({ ...thresholds, [key]: number })
+  }
+
+  return (
+    <div className="flex flex-col h-full min-h-0 text-sm text-gray-900">
+      <div className="p-2 border-b border-gray-200 flex flex-wrap gap-1" role="group" aria-label="Signal types">
+        {(Object.keys(FRUSTRATION_KINDS) as FrustrationKind[]).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => toggleKind(kind)}
+            aria-pressed={!hiddenKinds.has(kind)}
+            className={`px-2 py-0.5 rounded text-xs ${KIND_STYLES[kind]} ${hiddenKinds.has(kind) ? 'opacity-40' : ''}`}
+          >
+            {FRUSTRATION_KINDS[kind].label}s ({counts[kind]})
+          </button>
+        ))}
+      </div>
+
+      <details className="p-2 border-b border-gray-200">
+        <summary className="cursor-pointer text-gray-700">Thresholds</summary>
+        <div className="mt-2 flex flex-col gap-1">
+          {THRESHOLD_FIELDS.map(({ key, label, unit }) => (
+            <label key={key} className="flex items-center gap-2">
+              <span className="flex-1 text-gray-700">{label}</span>
+              <input
+                type="number"
+                min={key === 'rageClickCount' ? 2 : 0}
+                value={thresholds[key]}
+                onChange={(e) => handleThresholdChange(key, e.target.value)}
+                className="w-20 px-1 py-0.5 border border-gray-300 rounded text-right"
+              />
+              <span className="w-5 text-gray-500">{unit}</span>
+            </label>
+          ))}
+          <button
+            onClick={() => onThresholdsChange(DEFAULT_FRUSTRATION_THRESHOLDS)}
+            className="self-end text-xs text-blue-600 hover:underline"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </details>
+
+      {visible.length === 0 ? (
+        <p className="p-4 text-gray-500">No frustration signals found</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {visible.map((signal) => (
+            <li key={signal.id}>
+              <button
+                onClick={() => onSeek(signal.timestamp - timelineStart)}
+                className="w-full text-left p-2 flex gap-2 hover:bg-gray-50"
+              >
+                <span className="shrink-0 font-mono text-blue-600">{formatDuration(signal.timestamp - timelineStart)}</span>
+                <span className="flex-1 min-w-0">
+                  <span className={`inline-block px-1.5 rounded text-xs ${KIND_STYLES[signal.kind]}`}>
+                    {FRUSTRATION_KINDS[signal.kind].label}
+                    {signal.kind === 'rage' && ` ×${signal.clicks}`}
+                  </span>
+                  <span className="block font-mono text-xs text-gray-700 break-all">
+                    {signal.selector ?? `Node #${signal.nodeId}`}
+                  </span>
+                  {signal.detail && <span className="block text-xs text-red-700 break-words line-clamp-2">{signal.detail}</span>}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
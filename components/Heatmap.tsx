@@ -0,0 +1,273 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Replayer } from 'rrweb'
+import type { RecordingEvent } from '@/lib/events'
+import { downloadBlob } from '@/lib/files'
+import {
+  aggregateHeatmaps,
+  drawHeatmap,
+  HEAT_GRADIENT,
+  heatPoints,
+  maxCount,
+  type HeatmapMode,
+} from '@/lib/heatmap'
+import { rasterizeDocument } from '@/lib/rasterize'
+
+interface HeatmapProps {
+  /** Recordings to aggregate, e.g. just the session being watched */
+  recordings: RecordingEvent[][]
+}
+
+interface RenderedPage {
+  url: string
+  /** Full document size of the rendered page, null while it renders */
+  size: { width: number; height: number } | null
+  error: string | null
+}
+
+// Canvases much taller than this are slow to colour and fail to allocate in some browsers
+const MAX_PAGE_HEIGHT = 10000
+// Time given to stylesheets and fonts before the page height is measured
+const SETTLE_MS = 500
+
+const MODES: { mode: HeatmapMode; label: string; unit: string }[] = [
+  { mode: 'clicks', label: 'Clicks', unit: 'clicks' },
+  { mode: 'moves', label: 'Mouse movement', unit: 'pointer samples' },
+]
+
+const LEGEND_BACKGROUND = `linear-gradient(to right, ${HEAT_GRADIENT.map(([stop, color]) => `${color} ${stop * 100}%`).join(', ')})`
+
+function canvasBlob(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise((resolve, reject) => {
+    try {
+      canvas.toBlob(resolve, 'image/png')
+    } catch (err) {
+      // SecurityError when something drawn onto the canvas tainted it
+      reject(err)
+    }
+  })
+}
+
+function fileSlug(url: string): string {
+  return url.replace(/^[a-z]+:\/\//i, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'page'
+}
+
+/**
+ * Click or movement density and scroll depth drawn over the page they
+ * happened on. The page is rebuilt by a paused rrweb Replayer at the first
+ * visit, stretched to its full height so the whole document is visible.
+ */
+export default function Heatmap({ recordings }: HeatmapProps) {
+  const pages = useMemo(() => aggregateHeatmaps(recordings), [recordings])
+  const [selectedUrl, setSelectedUrl] = useState<string | null>(null)
+  const [mode, setMode] = useState<HeatmapMode>('clicks')
+  const [rendered, setRendered] = useState<RenderedPage | null>(null)
+  const [containerWidth, setContainerWidth] = useState(0)
+  const [exporting, setExporting] = useState(false)
+  const [exportNote, setExportNote] = useState<string | null>(null)
+
+  const containerRef = useRef<HTMLDivElement>(null)
+  const snapshotRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const page = pages.find((p) => p.url === selectedUrl) ?? pages[0]
+  const current = page && rendered?.url === page.url ? rendered : null
+  const size = current?.size ?? null
+  const points = page ? heatPoints(page, mode) : []
+  const max = maxCount(points)
+  const modeInfo = MODES.find((option) => option.mode === mode)!
+
+  const pageUrl = page?.url
+  const snapshotEvents = page ? recordings[page.snapshot.recording] : undefined
+  const snapshotTime = page?.snapshot.timestamp
+  const viewportWidth = page?.viewport.width
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // Rebuild the page's DOM whenever another page is picked
+  useEffect(() => {
+    const root = snapshotRef.current
+    if (!root || !pageUrl || !snapshotEvents || snapshotTime === undefined || !viewportWidth) return
+
+    let replayer: Replayer | null = null
+    let measureTimer: ReturnType<typeof setTimeout> | undefined
+    const renderTimer = setTimeout(() => {
+      try {
+        replayer = new Replayer(snapshotEvents, {
+          root,
+          mouseTail: false,
+          showWarning: false,
+          triggerFocus: false,
+        })
+        replayer.pause(snapshotTime - replayer.getMetaData().startTime)
+        replayer.wrapper.querySelector<HTMLElement>('.replayer-mouse')?.style.setProperty('display', 'none')
+      } catch (err) {
+        console.error('Failed to render page for heatmap:', err)
+        setRendered({ url: pageUrl, size: null, error: err instanceof Error ? err.message : 'Failed to render page' })
+        return
+      }
+
+      const iframe = replayer.iframe
+      measureTimer = setTimeout(() => {
+        const doc = iframe.contentDocument
+        const height = Math.min(MAX_PAGE_HEIGHT, Math.max(
+          Number(iframe.getAttribute('height')) || 0,
+          doc?.documentElement.scrollHeight ?? 0,
+          doc?.body?.scrollHeight ?? 0
+        ))
+        // Tall enough that the page never scrolls inside the frame
+        iframe.setAttribute('width', String(viewportWidth))
+        iframe.setAttribute('height', String(height))
+        iframe.style.border = 'none'
+        iframe.style.display = 'block'
+        setRendered({ url: pageUrl, size: { width: viewportWidth, height }, error: null })
+      }, SETTLE_MS)
+    }, 0)
+
+    return () => {
+      clearTimeout(renderTimer)
+      clearTimeout(measureTimer)
+      replayer?.destroy()
+      root.replaceChildren()
+    }
+  }, [pageUrl, snapshotEvents, snapshotTime, viewportWidth])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !page || !size) return
+    drawHeatmap(canvas, heatPoints(page, mode), page.scrollDepths)
+  }, [page, mode, size])
+
+  // The rebuilt page first, then the heatmap layer on top
+  const handleExport = async () => {
+    const overlay = canvasRef.current
+    if (!page || !size || !overlay) return
+    setExporting(true)
+    setExportNote(null)
+
+    let blob: Blob | null
+    try {
+      const doc = snapshotRef.current?.querySelector('iframe')?.contentDocument
+      if (!doc) throw new Error('The page has not been rendered')
+      const pageImage = await rasterizeDocument(doc, size.width, size.height)
+
+      const output = document.createElement('canvas')
+      output.width = size.width
+      output.height = size.height
+      const ctx = output.getContext('2d')
+      if (!ctx) throw new Error('Canvas is not available')
+      ctx.fillStyle = '#ffffff'
+      ctx.fillRect(0, 0, size.width, size.height)
+      ctx.drawImage(pageImage, 0, 0)
+      ctx.drawImage(overlay, 0, 0)
+      blob = await canvasBlob(output)
+    } catch (err) {
+      console.warn('Failed to draw the page into the heatmap export:', err)
+      setExportNote('The page could not be drawn into the image, so this PNG holds the heatmap layer only.')
+      blob = await canvasBlob(overlay).catch(() => null)
+    }
+
+    if (blob) downloadBlob(blob, `heatmap-${fileSlug(page.url)}-${mode}.png`)
+    setExporting(false)
+  }
+
+  if (!page) {
+    return <p className="text-gray-600">No page visits with pointer data in {recordings.length === 1 ? 'this recording' : 'these recordings'}</p>
+  }
+
+  const scale = size && containerWidth > 0 ? Math.min(1, containerWidth / size.width) : 1
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2 min-w-0">
+          Page
+          <select
+            value={page.url}
+            onChange={(e) => setSelectedUrl(e.target.value)}
+            className="border border-gray-300 rounded px-2 py-1 max-w-[32rem]"
+          >
+            {pages.map((option) => (
+              <option key={option.url} value={option.url}>
+                {option.url} · {option.visits} visit{option.visits === 1 ? '' : 's'}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex items-center gap-1" role="group" aria-label="Heatmap data">
+          {MODES.map((option) => (
+            <button
+              key={option.mode}
+              onClick={() => setMode(option.mode)}
+              aria-pressed={mode === option.mode}
+              className={`px-3 py-1 rounded transition-colors ${
+                mode === option.mode ? 'bg-blue-600 text-white' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2" aria-label="Density legend">
+          <span className="tabular-nums">{max > 0 ? 1 : 0}</span>
+          <span className="w-32 h-3 rounded" style={{ background: LEGEND_BACKGROUND }} />
+          <span className="tabular-nums">{max}</span>
+          <span className="text-gray-500">{modeInfo.unit} per spot</span>
+        </div>
+
+        <span className="flex items-center gap-2 text-gray-500">
+          <span className="w-8 border-t-2 border-dashed border-gray-800" />
+          share of visits that scrolled this far
+        </span>
+
+        <button
+          onClick={handleExport}
+          disabled={!size || exporting}
+          className="ml-auto px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-40"
+        >
+          {exporting ? 'Exporting...' : 'Export PNG'}
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {page.clicks.reduce((sum, point) => sum + point.count, 0)} clicks over {page.visits} visit{page.visits === 1 ? '' : 's'},
+        drawn over the page at {page.viewport.width}px wide.
+      </p>
+      {exportNote && <p className="text-xs text-yellow-800">{exportNote}</p>}
+
+      {current?.error && <p className="text-red-600">Could not render this page: {current.error}</p>}
+      {!current && <p className="text-gray-600">Rendering page...</p>}
+
+      <div ref={containerRef} className="relative max-h-[80vh] overflow-auto border border-gray-200 rounded bg-gray-50">
+        <div
+          className="relative"
+          style={size ? { width: size.width * scale, height: size.height * scale } : undefined}
+        >
+          <div
+            className="absolute top-0 left-0 origin-top-left"
+            style={size ? { width: size.width, height: size.height, transform: `scale(${scale})` } : { visibility: 'hidden' }}
+          >
+            <div ref={snapshotRef} className="absolute inset-0 pointer-events-none" />
+            {size && (
+              <canvas
+                ref={canvasRef}
+                width={size.width}
+                height={size.height}
+                className="absolute inset-0 pointer-events-none"
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
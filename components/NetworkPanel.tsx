@@ -0,0 +1,175 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { formatDuration } from '@/lib/format'
+import { isFailedRequest, isSlowRequest, SLOW_REQUEST_MS, type NetworkRequest } from '@/lib/network'
+
+interface NetworkPanelProps {
+  requests: NetworkRequest[]
+  /** Playback position, in ms from the start of the timeline */
+  currentTime: number
+  /** Length of the timeline in ms */
+  duration: number
+  /** Epoch ms the timeline starts at */
+  timelineStart: number
+  /** Called with a time in ms from the start of the timeline */
+  onSeek: (time: number) => void
+}
+
+type RequestFilter = 'all' | 'failed' | 'slow'
+
+function displayUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.pathname}${parsed.search}` || url
+  } catch {
+    return url
+  }
+}
+
+function formatBody(body: unknown): string {
+  if (typeof body === 'string') return body
+  try {
+    return JSON.stringify(body, null, 2)
+  } catch {
+    return String(body)
+  }
+}
+
+function HeaderList({ title, headers }: { title: string, headers?: Record<string, string> }) {
+  if (!headers || Object.keys(headers).length === 0) return null
+  return (
+    <div>
+      <p className="font-semibold text-gray-700">{title}</p>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-2">
+        {Object.entries(headers).map(([name, value]) => (
+          <div key={name} className="contents">
+            <dt className="text-gray-500">{name}</dt>
+            <dd className="break-all">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  )
+}
+
+function Body({ title, body }: { title: string, body: unknown }) {
+  if (body === undefined || body === null || body === '') return null
+  return (
+    <div>
+      <p className="font-semibold text-gray-700">{title}</p>
+      <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all bg-gray-50 p-1 rounded">{formatBody(body)}</pre>
+    </div>
+  )
+}
+
+/**
+ * Network requests of the recording as a waterfall relative to session start
+ */
+export default function NetworkPanel({ requests, currentTime, duration, timelineStart, onSeek }: NetworkPanelProps) {
+  const [filter, setFilter] = useState<RequestFilter>('all')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const filtered = useMemo(() => requests.filter((request) => {
+    if (filter === 'failed') return isFailedRequest(request)
+    if (filter === 'slow') return isSlowRequest(request)
+    return true
+  }), [requests, filter])
+
+  const failedCount = useMemo(() => requests.filter(isFailedRequest).length, [requests])
+  const slowCount = useMemo(() => requests.filter((request) => isSlowRequest(request)).length, [requests])
+
+  const position = (timestamp: number) =>
+    duration > 0 ? Math.min(1, Math.max(0, (timestamp - timelineStart) / duration)) : 0
+  const playhead = duration > 0 ? Math.min(1, currentTime / duration) : 0
+
+  const filters: Array<{ value: RequestFilter, label: string }> = [
+    { value: 'all', label: `All (${requests.length})` },
+    { value: 'failed', label: `Failed (${failedCount})` },
+    { value: 'slow', label: `Slow ≥${SLOW_REQUEST_MS / 1000}s (${slowCount})` },
+  ]
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="p-2 border-b border-gray-200 flex gap-1 text-xs">
+        {filters.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            aria-pressed={filter === value}
+            className={`px-2 py-0.5 rounded transition-colors ${
+              filter === value ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">
+          {requests.length === 0 ? 'No network requests were recorded' : 'No requests match the filter'}
+        </p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto text-xs divide-y divide-gray-100">
+          {filtered.map((request) => {
+            const failed = isFailedRequest(request)
+            const isFuture = request.start > timelineStart + currentTime
+            const selected = request.id === selectedId
+            return (
+              <li key={request.id} className={`${failed ? 'bg-red-50' : ''} ${isFuture ? 'opacity-60' : ''}`}>
+                <button
+                  onClick={() => {
+                    setSelectedId(selected ? null : request.id)
+                    onSeek(request.start - timelineStart)
+                  }}
+                  aria-expanded={selected}
+                  className="w-full text-left px-2 py-1 flex items-center gap-2 hover:bg-black/5"
+                  title={request.url}
+                >
+                  <span className="w-2/5 min-w-0 flex items-center gap-1">
+                    <span className="font-mono font-semibold text-gray-600 shrink-0">{request.method}</span>
+                    <span className={`font-mono shrink-0 ${failed ? 'text-red-700' : 'text-gray-600'}`}>
+                      {request.status ?? '—'}
+                    </span>
+                    <span className="truncate text-gray-900">{displayUrl(request.url)}</span>
+                  </span>
+                  <span className="w-12 shrink-0 truncate text-gray-500">{request.initiatorType ?? '—'}</span>
+                  <span className="w-12 shrink-0 text-right text-gray-500">
+                    {request.duration !== undefined ? `${Math.round(request.duration)}ms` : '—'}
+                  </span>
+                  {/* Waterfall, with the playhead at the current time */}
+                  <span className="relative flex-1 h-3 bg-gray-100 rounded-sm">
+                    <span
+                      className={`absolute top-0.5 bottom-0.5 rounded-sm ${
+                        failed ? 'bg-red-500' : isSlowRequest(request) ? 'bg-yellow-500' : 'bg-blue-500'
+                      }`}
+                      style={{
+                        left: `${position(request.start) * 100}%`,
+                        width: `max(2px, ${duration > 0 ? ((request.duration ?? 0) / duration) * 100 : 0}%)`,
+                      }}
+                    />
+                    <span className="absolute inset-y-0 w-px bg-gray-900" style={{ left: `${playhead * 100}%` }} />
+                  </span>
+                </button>
+
+                {selected && (
+                  <div className="px-2 pb-2 flex flex-col gap-2 font-mono text-gray-800">
+                    <p className="break-all">{request.url}</p>
+                    <p className="text-gray-500">
+                      {request.initiatorType ?? 'unknown initiator'} · started at {formatDuration(request.start - timelineStart)}
+                    </p>
+                    <HeaderList title="Request headers" headers={request.requestHeaders} />
+                    <Body title="Request body" body={request.requestBody} />
+                    <HeaderList title="Response headers" headers={request.responseHeaders} />
+                    <Body title="Response body" body={request.responseBody} />
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
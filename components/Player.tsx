@@ -1,27 +1,189 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useImperativeHandle, useMemo, useRef, useState, type ReactNode, type Ref } from 'react'
 import { Replayer } from 'rrweb'
+import BrowserChrome from '@/components/BrowserChrome'
+import ConsolePanel from '@/components/ConsolePanel'
+import NetworkPanel from '@/components/NetworkPanel'
+import ShortcutHelp from '@/components/ShortcutHelp'
+import Timeline from '@/components/Timeline'
+import { extractConsoleEntries } from '@/lib/console'
+import { isFullSnapshot, type RecordingEvent } from '@/lib/events'
+import { formatDuration } from '@/lib/format'
+import { findInactivePeriods, totalLength } from '@/lib/inactivity'
+import { extractMarkers, type MarkerType, type TimelineMarker } from '@/lib/markers'
+import { extractPageVisits, extractViewportSizes } from '@/lib/navigation'
+import { extractNetworkRequests } from '@/lib/network'
+import type { TimeRange } from '@/lib/types'
 
 interface PlayerProps {
-  events: any[]
+  /** Events to replay. May keep growing while blobs download; new ones are fed to the live replayer. */
+  events: RecordingEvent[]
+  /** Time spans whose events have been loaded */
+  bufferedRanges?: TimeRange[]
+  /** Time spans that failed to load and will be skipped */
+  missingRanges?: TimeRange[]
+  /** Full span of the recording, known before all of it is loaded */
+  totalRange?: TimeRange | null
+  /** Time to start at, in ms from the start of the recording */
+  initialTime?: number
+  /** Markers from outside the recording, such as annotations */
+  extraMarkers?: TimelineMarker[]
+  /** Extra tabs for the side panel */
+  panels?: PlayerPanel[]
+  /** Show the console/network/extra panels next to the recording (default true) */
+  showSidePanel?: boolean
+  /**
+   * Playback is driven by the host through the ref (e.g. several players
+   * kept in sync): the play, speed and skip-inactivity controls are hidden and
+   * seeks by the user are reported through `onSeek` instead of being applied
+   */
+  sharedTransport?: boolean
+  /** Seek requested by the user while `sharedTransport` is on, in ms from the start */
+  onSeek?: (time: number) => void
   onReady?: () => void
+  /** Called on every frame the playback position changes, with the time in ms from the start */
+  onTimeUpdate?: (time: number) => void
+  onStateChange?: (state: PlayerState) => void
+  ref?: Ref<PlayerHandle>
 }
 
-export default function Player({ events, onReady }: PlayerProps) {
+export type PlayerState = 'playing' | 'paused' | 'finished'
+
+/**
+ * Imperative API for host apps to drive the player. Times are in ms from the
+ * start of the recording.
+ */
+export interface PlayerHandle {
+  play: () => void
+  pause: () => void
+  seek: (time: number) => void
+  setSpeed: (speed: number) => void
+  getCurrentTime: () => number
+}
+
+export interface PlayerPanel {
+  id: string
+  label: string
+  content: ReactNode
+}
+
+const SPEEDS = [0.5, 1, 2, 4]
+const STEP_MS = 5000
+const FINE_STEP_MS = 1000
+
+// Keys typed into these elements are not shortcuts
+const TEXT_ENTRY_SELECTOR = 'input:not([type=range]), textarea, select, [contenteditable=""], [contenteditable=true]'
+
+export default function Player({
+  events,
+  bufferedRanges,
+  missingRanges,
+  totalRange,
+  initialTime,
+  extraMarkers,
+  panels,
+  showSidePanel = true,
+  sharedTransport = false,
+  onSeek,
+  onReady,
+  onTimeUpdate,
+  onStateChange,
+  ref,
+}: PlayerProps) {
+  const rootRef = useRef<HTMLDivElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
-  const replayerRef = useRef<any>(null)
+  const replayerRef = useRef<Replayer | null>(null)
+  // Latest events, and how many of them the replayer already has
+  const eventsRef = useRef(events)
+  const fedCountRef = useRef(0)
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
-  const [duration, setDuration] = useState(0)
   const [playbackSpeed, setPlaybackSpeed] = useState(1)
+  const [hiddenMarkerTypes, setHiddenMarkerTypes] = useState<Set<MarkerType>>(new Set())
+  const [skipInactive, setSkipInactive] = useState(true)
+  const [skippingIdle, setSkippingIdle] = useState(false)
+  const [sidePanel, setSidePanel] = useState('console')
+  const [showHelp, setShowHelp] = useState(false)
+  // Read out by screen readers after keyboard actions
+  const [announcement, setAnnouncement] = useState('')
+
+  const firstEvent = events[0]
+  const lastEvent = events[events.length - 1]
+  const timelineStart = firstEvent?.timestamp ?? totalRange?.start ?? 0
+  const timelineEnd = Math.max(lastEvent?.timestamp ?? 0, totalRange?.end ?? 0)
+  const duration = Math.max(0, timelineEnd - timelineStart)
+  const markers = useMemo(
+    () => [...extractMarkers(events), ...(extraMarkers ?? [])].sort((a, b) => a.timestamp - b.timestamp),
+    [events, extraMarkers]
+  )
+  const visibleMarkers = useMemo(
+    () => markers.filter((marker) => !hiddenMarkerTypes.has(marker.type)),
+    [markers, hiddenMarkerTypes]
+  )
+  const pageVisits = useMemo(() => extractPageVisits(events), [events])
+  const viewportSizes = useMemo(() => extractViewportSizes(events), [events])
+  const consoleEntries = useMemo(() => extractConsoleEntries(events), [events])
+  const networkRequests = useMemo(() => extractNetworkRequests(events), [events])
+  // Panels are only offered for data the recording has
+  const sidePanels = [
+    ...(consoleEntries.length > 0 ? [{ id: 'console', label: `Console (${consoleEntries.length})` }] : []),
+    ...(networkRequests.length > 0 ? [{ id: 'network', label: `Network (${networkRequests.length})` }] : []),
+    ...(panels ?? []),
+  ]
+  const activePanel = sidePanels.some(({ id }) => id === sidePanel) ? sidePanel : sidePanels[0]?.id
+  // Only the loaded part of the recording can be analysed; the rest is recomputed as it arrives
+  const idleRanges = useMemo(
+    () => (events.length > 0
+      ? findInactivePeriods(events, { start: events[0].timestamp, end: events[events.length - 1].timestamp })
+      : []),
+    [events]
+  )
+  const activeDuration = Math.max(0, duration - totalLength(idleRanges))
+
+  // Read by the replayer's event handlers, which are set up once
+  const skipInactiveRef = useRef(skipInactive)
+  const idleRangesRef = useRef(idleRanges)
+  const onTimeUpdateRef = useRef(onTimeUpdate)
+  const onStateChangeRef = useRef(onStateChange)
+  const onReadyRef = useRef(onReady)
+  // Only applied when the replayer is created; later changes go through setConfig
+  const playbackSpeedRef = useRef(playbackSpeed)
+  useEffect(() => {
+    // Skipping idle time would pull a host-driven player out of sync
+    skipInactiveRef.current = skipInactive && !sharedTransport
+    idleRangesRef.current = idleRanges
+    onTimeUpdateRef.current = onTimeUpdate
+    onStateChangeRef.current = onStateChange
+    onReadyRef.current = onReady
+    playbackSpeedRef.current = playbackSpeed
+  }, [skipInactive, sharedTransport, idleRanges, onTimeUpdate, onStateChange, onReady, playbackSpeed])
+  // Only applied when the replayer is created
+  const initialTimeRef = useRef(initialTime)
+  // Set while the user drags the scrubber
+  const scrubRef = useRef<{ wasPlaying: boolean } | null>(null)
+
+  useEffect(() => {
+    if (!skippingIdle) return
+    const timeout = setTimeout(() => setSkippingIdle(false), 1500)
+    return () => clearTimeout(timeout)
+  }, [skippingIdle])
 
   useEffect(() => {
-    if (!containerRef.current || !events || events.length === 0) {
-      console.log('⚠️ Player: Missing container or events', {
-        hasContainer: !!containerRef.current,
-        eventsCount: events?.length || 0
-      })
+    eventsRef.current = events
+
+    // Push events that arrived after the replayer was created
+    const replayer = replayerRef.current
+    if (!replayer) return
+    for (let i = fedCountRef.current; i < events.length; i++) {
+      replayer.addEvent(events[i])
+    }
+    fedCountRef.current = events.length
+  }, [events])
+
+  useEffect(() => {
+    const events = eventsRef.current
+    if (!containerRef.current || !firstEvent || events.length === 0) {
       return
     }
 
@@ -31,127 +193,139 @@ export default function Player({ events, onReady }: PlayerProps) {
     // Store cleanup functions
     const cleanupFunctions: Array<() => void> = []
     
-    // Defer initialization significantly to avoid blocking
-    const initTimeout = setTimeout(() => {
+    // Parsing and decompression already happened in the snapshot worker, so we
+    // only wait a frame for the container to be laid out
+    const initFrame = requestAnimationFrame(() => {
       try {
         initializePlayer()
       } catch (error) {
         console.error('Error initializing player:', error)
       }
-    }, 500) // Increased delay to let page fully render first
+    })
 
     function initializePlayer() {
-      // Check container dimensions
-      const containerRect = container.getBoundingClientRect()
-      console.log('Container dimensions:', { width: containerRect.width, height: containerRect.height })
-
-      console.log('🚀 Initializing player...', {
-        eventsCount: events.length,
-        containerSize: { width: containerRect.width, height: containerRect.height }
-      })
-
       try {
-        // Find viewport event for original device dimensions
-      const viewportEvent = events.find((e: any) => (e?.type === 4 || e?.type === '4') && e?.data?.width && e?.data?.height)
-      const originalWidth = viewportEvent?.data?.width || 390
-      const originalHeight = viewportEvent?.data?.height || 699
-
-      // Quick check for FullSnapshot - minimal processing
-      const fullSnapshotEvent = events.find((e: any) => e?.type === 2 || e?.type === '2')
-      
-      if (!fullSnapshotEvent) {
-        console.error('❌ No FullSnapshot found')
+      // Nothing to build the page from; the event inspector reports this
+      if (!events.some(isFullSnapshot)) {
         return
       }
-      
-      console.log('✅ FullSnapshot found')
 
-      // Skip heavy processing - let rrweb handle it natively
-      // Use events directly - rrweb handles sorting internally
-      const processedEvents = events
-      console.log('✅ Using events directly (minimal processing)')
+      try {
+        // Skip heavy processing - let rrweb handle it natively
+        // Take whatever has been loaded by now; later events go through addEvent
+        const initialEvents = eventsRef.current
+        fedCountRef.current = initialEvents.length
+        const replayer = new Replayer(initialEvents, {
+          root: container,
+          liveMode: false,
+          speed: playbackSpeedRef.current,
+          // Enable mouse tail (trail) - this is separate from touch indicators
+          mouseTail: true,
+        })
 
-      // Create replayer - defer significantly to avoid blocking main thread
-      console.log('🔧 Creating Replayer with', processedEvents.length, 'events')
-      
-      // Use requestAnimationFrame + setTimeout to defer heavy work
-      requestAnimationFrame(() => {
-        setTimeout(() => {
-          try {
-            const replayer = new Replayer(processedEvents, {
-              root: container,
-              liveMode: false,
-              speed: playbackSpeed,
-              // Enable mouse tail (trail) - this is separate from touch indicators
-              mouseTail: true,
-            })
+        replayerRef.current = replayer
 
-            replayerRef.current = replayer
-            console.log('✅ Replayer created')
-            
-            // Continue with setup - defer further to avoid blocking
-            setTimeout(() => {
-              const setupCleanup = setupReplayer(replayer)
-              if (setupCleanup) {
-                cleanupFunctions.push(setupCleanup)
-              }
-              
-              // Call onReady callback after setup completes
-              // Use a longer delay to ensure iframe is ready
-              setTimeout(() => {
-                if (onReady) {
-                  console.log('✅ Player ready - calling onReady')
-                  onReady()
-                }
-              }, 800)
-            }, 200)
-          } catch (error) {
-            console.error('Error creating replayer:', error)
-            // Still call onReady even if there's an error
-            if (onReady) {
-              setTimeout(() => {
-                console.log('⚠️ Player created with errors - calling onReady anyway')
-                onReady()
-              }, 1000)
-            }
-          }
-        }, 100)
-      })
+        // Deep links start paused at the linked time
+        if (initialTimeRef.current) {
+          replayer.pause(initialTimeRef.current)
+        }
+        
+        const setupCleanup = setupReplayer(replayer)
+        if (setupCleanup) {
+          cleanupFunctions.push(setupCleanup)
+        }
+        
+        // Call onReady callback after setup completes
+        // Use a short delay to ensure iframe is ready
+        const readyTimeout = setTimeout(() => {
+          // Focus the player so keyboard shortcuts work right away
+          rootRef.current?.focus({ preventScroll: true })
+          onReadyRef.current?.()
+        }, 300)
+        cleanupFunctions.push(() => clearTimeout(readyTimeout))
+      } catch (error) {
+        console.error('Error creating replayer:', error)
+        // Still call onReady even if there's an error
+        onReadyRef.current?.()
+      }
       
-      function setupReplayer(replayer: any): (() => void) | null {
-        // Set up event listeners
+      function setupReplayer(replayer: Replayer): (() => void) | null {
+        // Set up event listeners. pause(time) emits start and then pause, so the
+        // state is read once both have fired
+        let lastState: PlayerState | null = null
+        const reportState = (finished = false) => {
+          queueMicrotask(() => {
+            const state: PlayerState = finished
+              ? 'finished'
+              : replayer.service.state.matches('playing') ? 'playing' : 'paused'
+            setIsPlaying(state === 'playing')
+            if (state !== lastState) {
+              lastState = state
+              onStateChangeRef.current?.(state)
+            }
+          })
+        }
+
         replayer.on('start', () => {
-          setIsPlaying(true)
+          reportState()
+          startClock()
         })
-
+        replayer.on('resume', startClock)
         replayer.on('pause', () => {
-          setIsPlaying(false)
+          reportState()
+          stopClock()
         })
-
         replayer.on('finish', () => {
-          setIsPlaying(false)
+          reportState(true)
+          stopClock()
         })
 
-        // Calculate duration from events
-        if (events.length > 0) {
-          const firstEvent = events[0]
-          const lastEvent = events[events.length - 1]
-          if (firstEvent?.timestamp && lastEvent?.timestamp) {
-            setDuration(lastEvent.timestamp - firstEvent.timestamp)
-          }
+        // Skip inactivity: jump to the end of the idle period playback has entered
+        const skipIdle = (current: number): number => {
+          if (!skipInactiveRef.current || !replayer.service.state.matches('playing')) return current
+
+          const now = replayer.getMetaData().startTime + current
+          const idle = idleRangesRef.current.find((range) => now >= range.start && now < range.end)
+          if (!idle) return current
+
+          const target = current + (idle.end - now)
+          replayer.play(target)
+          setSkippingIdle(true)
+          return target
         }
 
-        // Update current time periodically - use longer interval
-        const timeInterval = setInterval(() => {
-          if (replayerRef.current) {
-            try {
-              const current = replayerRef.current.getCurrentTime?.() || 0
-              setCurrentTime(current)
-            } catch (e) {
-              // Ignore errors
-            }
+        const updateCurrentTime = (time: number) => {
+          const current = skipIdle(Math.max(0, time || 0))
+          setCurrentTime(current)
+          onTimeUpdateRef.current?.(current)
+        }
+
+        // The bare Replayer has no UI clock (rrweb-player runs one in its
+        // controller), so its time is polled from an animation frame loop that
+        // only runs while playing. Pausing, seeking and finishing sync it once.
+        let lastTime = -1
+        let clockFrame = 0
+        const syncTime = () => {
+          const time = replayer.getCurrentTime()
+          if (time !== lastTime) {
+            lastTime = time
+            updateCurrentTime(time)
           }
-        }, 500) // Very long interval to reduce CPU usage
+        }
+        const tick = () => {
+          syncTime()
+          clockFrame = requestAnimationFrame(tick)
+        }
+        function startClock() {
+          if (!clockFrame) clockFrame = requestAnimationFrame(tick)
+        }
+        function stopClock() {
+          cancelAnimationFrame(clockFrame)
+          clockFrame = 0
+          syncTime()
+        }
+        // Deep links have already paused at their time before these listeners existed
+        syncTime()
 
         // Set up touch indicators - they're inside the iframe
         const setupTouchIndicators = () => {
@@ -162,8 +336,8 @@ export default function Player({ events, onReady }: PlayerProps) {
             // Try to access iframe document
             let iframeDoc: Document | null = null
             try {
-              iframeDoc = iframe.contentDocument || (iframe.contentWindow as any)?.document
-            } catch (e) {
+              iframeDoc = iframe.contentDocument || iframe.contentWindow?.document || null
+            } catch {
               // Cross-origin or sandboxed - can't access
               return
             }
@@ -182,7 +356,6 @@ export default function Player({ events, onReady }: PlayerProps) {
                 el.style.setProperty('opacity', '1', 'important')
                 el.style.setProperty('display', 'block', 'important')
               })
-              console.log(`✅ Styled ${iframeIndicators.length} touch/mouse indicators in iframe`)
             }
           } catch (e) {
             console.warn('Error styling touch indicators:', e)
@@ -197,8 +370,8 @@ export default function Player({ events, onReady }: PlayerProps) {
             
             let iframeDoc: Document | null = null
             try {
-              iframeDoc = iframe.contentDocument || (iframe.contentWindow as any)?.document
-            } catch (e) {
+              iframeDoc = iframe.contentDocument || iframe.contentWindow?.document || null
+            } catch {
               // Cross-origin or sandboxed
               return
             }
@@ -220,12 +393,11 @@ export default function Player({ events, onReady }: PlayerProps) {
                 }
               `
               iframeDoc.head.appendChild(style)
-              console.log('✅ Injected touch indicator styles into iframe')
             }
             
             // Also style existing indicators
             setupTouchIndicators()
-          } catch (e) {
+          } catch {
             // Silently fail for cross-origin
           }
         }
@@ -246,7 +418,7 @@ export default function Player({ events, onReady }: PlayerProps) {
             
             // Watch for new indicators being added
             try {
-              const iframeDoc = iframe.contentDocument || (iframe.contentWindow as any)?.document
+              const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document
               if (iframeDoc && iframeDoc.body) {
                 const observer = new MutationObserver((mutations) => {
                   // Check if any new .replayer-mouse elements were added
@@ -269,7 +441,6 @@ export default function Player({ events, onReady }: PlayerProps) {
                   childList: true,
                   subtree: true
                 })
-                console.log('✅ Watching iframe for touch indicators')
                 
                 // Store observer for cleanup
                 return () => {
@@ -329,8 +500,6 @@ export default function Player({ events, onReady }: PlayerProps) {
                   el.style.setProperty('visibility', 'visible', 'important')
                   el.style.setProperty('opacity', '1', 'important')
                   
-                  const computed = window.getComputedStyle(el)
-                  
                   // Customize touch indicators - we have full control since we control the data
                   // If this is a mobile recording (has swipe trails), style as blue circle
                   if (isMobileRecording) {
@@ -343,57 +512,9 @@ export default function Player({ events, onReady }: PlayerProps) {
                     el.style.setProperty('width', '24px', 'important') // Size - customize as needed
                     el.style.setProperty('height', '24px', 'important')
                     el.style.setProperty('box-shadow', '0 0 8px rgba(59, 130, 246, 0.6)', 'important') // Glow effect
-                    console.log('🎨 Applied custom blue circle styling to touch indicator')
                   }
-                  
-                  console.log(`🎯 Indicator FULL debug:`, {
-                    inlineStyles: {
-                      position: el.style.position,
-                      zIndex: el.style.zIndex,
-                      visibility: el.style.visibility,
-                      opacity: el.style.opacity,
-                      display: el.style.display,
-                      left: el.style.left,
-                      top: el.style.top,
-                      width: el.style.width,
-                      height: el.style.height,
-                      backgroundImage: el.style.backgroundImage?.substring(0, 50),
-                    },
-                    computedStyles: {
-                      display: computed.display,
-                      visibility: computed.visibility,
-                      opacity: computed.opacity,
-                      zIndex: computed.zIndex,
-                      position: computed.position,
-                      left: computed.left,
-                      top: computed.top,
-                      width: computed.width,
-                      height: computed.height,
-                      backgroundImage: computed.backgroundImage?.substring(0, 50) || 'none',
-                      backgroundSize: computed.backgroundSize,
-                    },
-                    elementMetrics: {
-                      offsetLeft: el.offsetLeft,
-                      offsetTop: el.offsetTop,
-                      offsetWidth: el.offsetWidth,
-                      offsetHeight: el.offsetHeight,
-                      clientWidth: el.clientWidth,
-                      clientHeight: el.clientHeight,
-                      scrollWidth: el.scrollWidth,
-                      scrollHeight: el.scrollHeight,
-                    },
-                    parentInfo: {
-                      tag: el.parentElement?.tagName,
-                      className: el.parentElement?.className,
-                      overflow: el.parentElement ? window.getComputedStyle(el.parentElement).overflow : 'N/A',
-                      position: el.parentElement ? window.getComputedStyle(el.parentElement).position : 'N/A',
-                      zIndex: el.parentElement ? window.getComputedStyle(el.parentElement).zIndex : 'N/A',
-                    }
-                  })
+
                 })
-                console.log(`✅ Styled ${wrapperIndicators.length} touch/mouse indicators in wrapper`)
-              } else {
-                console.log('⚠️ No touch/mouse indicators found in wrapper')
               }
               
               // Style swipe/trail lines (red lines for mobile swipes)
@@ -406,12 +527,7 @@ export default function Player({ events, onReady }: PlayerProps) {
                   el.style.setProperty('visibility', 'visible', 'important')
                   el.style.setProperty('opacity', '1', 'important')
                 })
-                console.log(`✅ Styled ${swipeLines.length} swipe/trail lines in wrapper`)
-              } else {
-                console.log('⚠️ No swipe/trail lines found in wrapper')
               }
-            } else {
-              console.log('⚠️ Wrapper not found')
             }
           } catch (e) {
             console.warn('Error checking wrapper indicators:', e)
@@ -434,11 +550,15 @@ export default function Player({ events, onReady }: PlayerProps) {
           if (indicatorCheckInterval) {
             clearInterval(indicatorCheckInterval)
           }
-          if (timeInterval) {
-            clearInterval(timeInterval)
+          cancelAnimationFrame(clockFrame)
+          // Removes the replayer's wrapper and iframe, so replaced recordings don't pile up
+          try {
+            replayer.destroy()
+          } catch (e) {
+            console.warn('Error destroying replayer:', e)
           }
-          if (replayerRef.current) {
-            replayerRef.current.pause()
+          if (replayerRef.current === replayer) {
+            replayerRef.current = null
           }
         }
       }
@@ -448,107 +568,348 @@ export default function Player({ events, onReady }: PlayerProps) {
     }
 
     return () => {
-      clearTimeout(initTimeout)
+      cancelAnimationFrame(initFrame)
       cleanupFunctions.forEach(fn => fn())
     }
-  }, [events])
+    // A new replayer is only built for a different recording (new first event); events
+    // appended later are fed to the live one, and callbacks and speed are read through refs
+  }, [firstEvent])
 
-  const handlePlayPause = () => {
-    if (!replayerRef.current) {
-      console.warn('⚠️ Replayer not ready yet')
-      return
-    }
+  const play = () => {
+    const replayer = replayerRef.current
+    if (!replayer) return
+    // play() without a time offset restarts from the beginning, which is only wanted at the end
+    const current = replayer.getCurrentTime()
+    replayer.play(current >= replayer.getMetaData().totalTime ? 0 : current)
+  }
 
-    try {
-      if (isPlaying) {
-        console.log('⏸ Pausing...')
-        replayerRef.current.pause()
-      } else {
-        console.log('▶ Playing...')
-        replayerRef.current.play()
-      }
-    } catch (error) {
-      console.error('Error in play/pause:', error)
-    }
+  const pause = () => {
+    replayerRef.current?.pause()
+  }
+
+  const handlePlayPause = () => {
+    if (isPlaying) pause()
+    else play()
   }
 
   const handleSpeedChange = (speed: number) => {
-    if (!replayerRef.current) return
     setPlaybackSpeed(speed)
-    replayerRef.current.setConfig({ speed })
+    replayerRef.current?.setConfig({ speed })
   }
 
   const handleSeek = (time: number) => {
-    if (!replayerRef.current) return
+    const replayer = replayerRef.current
+    if (!replayer) return
+    const target = Math.max(0, Math.min(time, duration))
     try {
-      // Try different methods to seek
-      if (replayerRef.current.goto) {
-        replayerRef.current.goto(time)
-      } else if (replayerRef.current.play) {
-        // If goto doesn't exist, pause and play from start
-        replayerRef.current.pause()
-        // Note: rrweb doesn't have a direct goto, so we'd need to recreate
-        // For now, just pause
+      // rrweb has no goto: play/pause take the time offset to jump to
+      if (replayer.service.state.matches('playing')) {
+        replayer.play(target)
+      } else {
+        replayer.pause(target)
       }
+      setCurrentTime(target)
     } catch (e) {
       console.error('Error seeking:', e)
     }
   }
 
+  // Seeks from the timeline, panels and keyboard; the host applies them under a shared transport
+  const requestSeek = (time: number) => {
+    if (sharedTransport) onSeek?.(Math.max(0, Math.min(time, duration)))
+    else handleSeek(time)
+  }
+
+  // Scrubbing pauses playback while dragging and resumes it from the new position
+  const handleScrubStart = () => {
+    const replayer = replayerRef.current
+    if (!replayer || scrubRef.current) return
+    const wasPlaying = replayer.service.state.matches('playing')
+    scrubRef.current = { wasPlaying }
+    if (wasPlaying) replayer.pause()
+  }
+
+  const handleScrubEnd = () => {
+    const scrub = scrubRef.current
+    scrubRef.current = null
+    const replayer = replayerRef.current
+    if (scrub?.wasPlaying && replayer) replayer.play(replayer.getCurrentTime())
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || target.closest(TEXT_ENTRY_SELECTOR)) return
+
+    const step = (delta: number) => {
+      const target = Math.max(0, Math.min(currentTime + delta, duration))
+      requestSeek(target)
+      setAnnouncement(formatDuration(target))
+    }
+    const jumpToMarker = (direction: 1 | -1) => {
+      const now = timelineStart + currentTime
+      // Skip markers within half a second, so repeated presses keep moving
+      const marker = direction === 1
+        ? visibleMarkers.find((m) => m.timestamp > now + 500)
+        : [...visibleMarkers].reverse().find((m) => m.timestamp < now - 500)
+      if (!marker) return
+      requestSeek(marker.timestamp - timelineStart)
+      setAnnouncement(`${marker.label} at ${formatDuration(marker.timestamp - timelineStart)}`)
+    }
+    const changeSpeed = (direction: 1 | -1) => {
+      const index = SPEEDS.indexOf(playbackSpeed) + direction
+      if (index < 0 || index >= SPEEDS.length) return
+      handleSpeedChange(SPEEDS[index])
+      setAnnouncement(`Speed ${SPEEDS[index]}x`)
+    }
+
+    // The host owns play/pause and speed
+    if (sharedTransport && [' ', '[', ']'].includes(e.key)) return
+
+    switch (e.key) {
+      case ' ':
+        // Space on a focused button presses that button
+        if (target.closest('button')) return
+        handlePlayPause()
+        setAnnouncement(isPlaying ? `Paused at ${formatDuration(currentTime)}` : 'Playing')
+        break
+      case 'ArrowLeft':
+        step(e.shiftKey ? -FINE_STEP_MS : -STEP_MS)
+        break
+      case 'ArrowRight':
+        step(e.shiftKey ? FINE_STEP_MS : STEP_MS)
+        break
+      case '[':
+        changeSpeed(-1)
+        break
+      case ']':
+        changeSpeed(1)
+        break
+      case ',':
+        jumpToMarker(-1)
+        break
+      case '.':
+        jumpToMarker(1)
+        break
+      case 'f':
+        handleToggleFullscreen()
+        break
+      case '?':
+        setShowHelp((show) => !show)
+        break
+      default:
+        return
+    }
+    e.preventDefault()
+  }
+
+  const handleToggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {})
+    } else {
+      rootRef.current?.requestFullscreen().catch((error) => console.warn('Fullscreen unavailable:', error))
+    }
+  }
+
+  const handleCloseHelp = () => {
+    setShowHelp(false)
+    rootRef.current?.focus({ preventScroll: true })
+  }
+
+  useImperativeHandle(ref, () => ({
+    play,
+    pause,
+    seek: handleSeek,
+    setSpeed: handleSpeedChange,
+    getCurrentTime: () => replayerRef.current?.getCurrentTime() ?? 0,
+  }))
+
+  const handleToggleMarkerType = (type: MarkerType) => {
+    setHiddenMarkerTypes((hidden) => {
+      const next = new Set(hidden)
+      if (next.has(type)) next.delete(type)
+      else next.add(type)
+      return next
+    })
+  }
+
   return (
-    <div className="flex flex-col h-full">
-      <div 
-        ref={containerRef} 
-        className="flex-1 bg-white border border-gray-300 rounded overflow-hidden relative player-container"
-        style={{ minHeight: '600px' }}
-      />
+    <div
+      ref={rootRef}
+      tabIndex={0}
+      role="region"
+      aria-label="Session player"
+      aria-keyshortcuts="Space ArrowLeft ArrowRight Shift+ArrowLeft Shift+ArrowRight [ ] , . f ?"
+      onKeyDown={handleKeyDown}
+      className="relative flex flex-col h-full rounded outline-none focus-visible:ring-2 focus-visible:ring-blue-500 fullscreen:bg-gray-100 fullscreen:p-4"
+    >
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+      {showHelp && <ShortcutHelp onClose={handleCloseHelp} />}
+
+      <div className="flex-1 flex gap-4 min-h-0">
+        <div className="flex-1 relative flex flex-col min-w-0">
+          <BrowserChrome
+            visits={pageVisits}
+            viewports={viewportSizes}
+            currentTime={currentTime}
+            timelineStart={timelineStart}
+            onSeek={requestSeek}
+          />
+          <div 
+            ref={containerRef} 
+            className="flex-1 bg-white border border-gray-300 rounded-b overflow-hidden relative player-container"
+            style={{ minHeight: '600px' }}
+          />
+          {skippingIdle && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div className="px-4 py-2 rounded bg-gray-900/80 text-white font-semibold">
+                ⏩ Skipping idle time
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Side panel */}
+        {showSidePanel && sidePanels.length > 0 && (
+          <aside className="w-[28rem] shrink-0 flex flex-col bg-white border border-gray-300 rounded overflow-hidden">
+            <div className="flex border-b border-gray-200 text-sm" role="tablist">
+              {sidePanels.map(({ id, label }) => (
+                <button
+                  key={id}
+                  role="tab"
+                  aria-selected={activePanel === id}
+                  onClick={() => setSidePanel(id)}
+                  className={`px-3 py-2 font-semibold transition-colors ${
+                    activePanel === id ? 'text-gray-900 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {activePanel === 'console' && (
+              <ConsolePanel
+                entries={consoleEntries}
+                currentTime={currentTime}
+                timelineStart={timelineStart}
+                onSeek={requestSeek}
+              />
+            )}
+            {panels?.find(({ id }) => id === activePanel)?.content}
+            {activePanel === 'network' && (
+              <NetworkPanel
+                requests={networkRequests}
+                currentTime={currentTime}
+                duration={duration}
+                timelineStart={timelineStart}
+                onSeek={requestSeek}
+              />
+            )}
+          </aside>
+        )}
+      </div>
       
       {/* Playbar */}
       <div className="bg-gray-900 text-white p-4 rounded-b">
         <div className="flex items-center gap-4">
-          {/* Play/Pause Button */}
-          <button
-            onClick={handlePlayPause}
-            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded transition-colors"
-          >
-            {isPlaying ? '⏸ Pause' : '▶ Play'}
-          </button>
-
-          {/* Speed Control */}
-          <div className="flex items-center gap-2">
-            <span>Speed:</span>
-            {[0.5, 1, 2, 4].map((speed) => (
+          {!sharedTransport && (
+            <>
+              {/* Play/Pause Button */}
               <button
-                key={speed}
-                onClick={() => handleSpeedChange(speed)}
-                className={`px-3 py-1 rounded transition-colors ${
-                  playbackSpeed === speed
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-700 hover:bg-gray-600'
-                }`}
+                onClick={handlePlayPause}
+                aria-label={isPlaying ? 'Pause' : 'Play'}
+                aria-keyshortcuts="Space"
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded transition-colors"
               >
-                {speed}x
+                {isPlaying ? '⏸ Pause' : '▶ Play'}
               </button>
-            ))}
-          </div>
+
+              {/* Speed Control */}
+              <div className="flex items-center gap-2" role="group" aria-labelledby="player-speed-label">
+                <span id="player-speed-label">Speed:</span>
+                {SPEEDS.map((speed) => (
+                  <button
+                    key={speed}
+                    onClick={() => handleSpeedChange(speed)}
+                    aria-pressed={playbackSpeed === speed}
+                    aria-label={`${speed}x speed`}
+                    className={`px-3 py-1 rounded transition-colors ${
+                      playbackSpeed === speed
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 hover:bg-gray-600'
+                    }`}
+                  >
+                    {speed}x
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
 
           {/* Timeline */}
           <div className="flex-1 flex items-center gap-2">
-            <span className="text-sm text-gray-400">
-              {Math.floor(currentTime / 1000)}s
+            <span className="text-sm text-gray-400 tabular-nums" aria-hidden="true">
+              {formatDuration(currentTime)}
             </span>
-            <input
-              type="range"
-              min="0"
-              max={duration || 100}
-              value={currentTime / 1000}
-              onChange={(e) => handleSeek(parseInt(e.target.value) * 1000)}
-              className="flex-1"
+            <Timeline
+              currentTime={currentTime}
+              duration={duration}
+              timelineStart={timelineStart}
+              markers={markers}
+              hiddenTypes={hiddenMarkerTypes}
+              onToggleType={handleToggleMarkerType}
+              bufferedRanges={bufferedRanges}
+              missingRanges={missingRanges}
+              idleRanges={idleRanges}
+              onSeek={requestSeek}
+              onScrubStart={sharedTransport ? undefined : handleScrubStart}
+              onScrubEnd={sharedTransport ? undefined : handleScrubEnd}
             />
-            <span className="text-sm text-gray-400">
-              {Math.floor((duration || 0) / 1000)}s
+            <span className="text-sm text-gray-400 tabular-nums" aria-hidden="true">
+              {formatDuration(duration)}
             </span>
           </div>
+
+          {/* Skip inactivity */}
+          {!sharedTransport && (
+            <div className="flex flex-col items-end gap-1 text-sm">
+              <button
+                onClick={() => setSkipInactive((skip) => !skip)}
+                aria-pressed={skipInactive}
+                className={`px-3 py-1 rounded transition-colors whitespace-nowrap ${
+                  skipInactive ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                Skip inactivity
+              </button>
+              <span className="text-xs text-gray-400 whitespace-nowrap">
+                Active {formatDuration(activeDuration)} of {formatDuration(duration)}
+              </span>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleToggleFullscreen}
+              aria-label="Toggle fullscreen"
+              aria-keyshortcuts="f"
+              title="Fullscreen (f)"
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+            >
+              ⛶
+            </button>
+            <button
+              onClick={() => setShowHelp(true)}
+              aria-label="Keyboard shortcuts"
+              aria-keyshortcuts="?"
+              aria-haspopup="dialog"
+              title="Keyboard shortcuts (?)"
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+            >
+              ⌨
+            </button>
+          </div>
         </div>
       </div>
     </div>
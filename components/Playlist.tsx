@@ -0,0 +1,190 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import Link from 'next/link'
+import SessionReplay from '@/components/SessionReplay'
+import { preloadSession } from '@/lib/api'
+import {
+  getReviewedServerSnapshot,
+  getReviewedSnapshot,
+  parseReviewed,
+  reviewKey,
+  setReviewed,
+  subscribeReviewed,
+} from '@/lib/reviewed'
+import { sessionPath } from '@/lib/routes'
+
+interface PlaylistProps {
+  sessionIds: string[]
+  projectId?: string
+  isAdmin?: boolean
+}
+
+type PreloadStatus = 'loading' | 'ready' | 'failed'
+
+/**
+ * Plays a queue of sessions one after another. The next session is loaded
+ * into the snapshot cache while the current one plays.
+ */
+export default function Playlist({ sessionIds, projectId, isAdmin }: PlaylistProps) {
+  const [index, setIndex] = useState(0)
+  const [autoAdvance, setAutoAdvance] = useState(true)
+  // Index of the session whose blobs have all been loaded; preloading waits for it
+  const [loadedIndex, setLoadedIndex] = useState<number | null>(null)
+  const [preloads, setPreloads] = useState<Record<string, PreloadStatus>>({})
+  const [progress, setProgress] = useState<Record<string, number>>({})
+
+  const reviewedSnapshot = useSyncExternalStore(subscribeReviewed, getReviewedSnapshot, getReviewedServerSnapshot)
+  const reviewed = useMemo(() => parseReviewed(reviewedSnapshot), [reviewedSnapshot])
+  const isReviewed = (sessionId: string) => reviewed.has(reviewKey(sessionId, projectId))
+  const reviewedCount = sessionIds.filter(isReviewed).length
+
+  const sessionId = sessionIds[index]
+  const nextId = sessionIds[index + 1]
+
+  useEffect(() => {
+    if (loadedIndex !== index || !nextId) return
+
+    const controller = new AbortController()
+    preloadSession(nextId, { projectId, masked: !isAdmin, signal: controller.signal })
+      .then(() => setPreloads((prev) => ({ ...prev, [nextId]: 'ready' })))
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        console.warn(`Failed to preload session ${nextId}:`, err)
+        setPreloads((prev) => ({ ...prev, [nextId]: 'failed' }))
+      })
+    return () => controller.abort()
+  }, [loadedIndex, index, nextId, projectId, isAdmin])
+
+  const goTo = (next: number) => {
+    if (next < 0 || next >= sessionIds.length) return
+    setIndex(next)
+    setLoadedIndex(null)
+  }
+
+  const handleLoaded = useCallback(() => {
+    setLoadedIndex(index)
+    if (nextId) {
+      setPreloads((prev) => (prev[nextId] ? prev : { ...prev, [nextId]: 'loading' }))
+    }
+  }, [index, nextId])
+
+  const handleFinish = () => {
+    if (autoAdvance) goTo(index + 1)
+  }
+
+  const handleProgress = useCallback((percent: number) => {
+    setProgress((prev) => (prev[sessionId] === percent ? prev : { ...prev, [sessionId]: percent }))
+  }, [sessionId])
+
+  const statusLabel = (id: string, i: number) => {
+    if (i === index) return `Playing · ${progress[id] ?? 0}%`
+    if (preloads[id] === 'loading') return 'Preloading…'
+    if (preloads[id] === 'ready') return 'Preloaded'
+    if (preloads[id] === 'failed') return 'Preload failed'
+    return progress[id] !== undefined ? `Watched ${progress[id]}%` : null
+  }
+
+  return (
+    <div className="flex gap-6 items-start">
+      <div className="flex-1 min-w-0">
+        <SessionReplay
+          key={`${projectId ?? ''}:${sessionId}`}
+          sessionId={sessionId}
+          projectId={projectId}
+          isAdmin={isAdmin}
+          autoPlay={index > 0}
+          onLoaded={handleLoaded}
+          onFinish={handleFinish}
+          onPlaybackProgress={handleProgress}
+        />
+      </div>
+
+      <aside className="w-72 shrink-0 bg-white rounded-lg shadow-lg p-4 flex flex-col gap-3" aria-label="Playlist">
+        <div>
+          <div className="flex items-center justify-between text-sm text-gray-700">
+            <span className="font-semibold">
+              Session {index + 1} of {sessionIds.length}
+            </span>
+            <span>{reviewedCount} reviewed</span>
+          </div>
+          <div
+            className="mt-2 h-1.5 bg-gray-200 rounded overflow-hidden"
+            role="progressbar"
+            aria-label="Sessions reviewed"
+            aria-valuemin={0}
+            aria-valuemax={sessionIds.length}
+            aria-valuenow={reviewedCount}
+          >
+            <div
+              className="h-full bg-green-500 transition-[width]"
+              style={{ width: `${(reviewedCount / sessionIds.length) * 100}%` }}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => goTo(index - 1)}
+            disabled={index === 0}
+            className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors disabled:opacity-40"
+          >
+            ← Previous
+          </button>
+          <button
+            onClick={() => goTo(index + 1)}
+            disabled={index === sessionIds.length - 1}
+            className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors disabled:opacity-40"
+          >
+            Next →
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-1 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={isReviewed(sessionId)}
+              onChange={(e) => setReviewed(reviewKey(sessionId, projectId), e.target.checked)}
+            />
+            Mark this session reviewed
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={autoAdvance} onChange={(e) => setAutoAdvance(e.target.checked)} />
+            Play next session automatically
+          </label>
+        </div>
+
+        <ol className="flex flex-col max-h-[60vh] overflow-y-auto -mx-1">
+          {sessionIds.map((id, i) => {
+            const status = statusLabel(id, i)
+            return (
+              <li key={id}>
+                <button
+                  onClick={() => goTo(i)}
+                  aria-current={i === index ? 'true' : undefined}
+                  className={`w-full text-left px-2 py-1.5 rounded flex items-center gap-2 ${
+                    i === index ? 'bg-blue-50 ring-1 ring-blue-300' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="w-5 text-right text-xs text-gray-400">{i + 1}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-mono text-xs text-gray-800 truncate" title={id}>{id}</span>
+                    {status && <span className="block text-xs text-gray-500">{status}</span>}
+                  </span>
+                  {isReviewed(id) && (
+                    <span className="text-green-600" aria-label="Reviewed" title="Reviewed">✓</span>
+                  )}
+                </button>
+              </li>
+            )
+          })}
+        </ol>
+
+        <Link href={sessionPath(sessionId, { projectId })} className="text-xs text-blue-600 hover:underline">
+          Open this session on its own
+        </Link>
+      </aside>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import CssReport from '@/components/CssReport'
+import EventInspector from '@/components/EventInspector'
+import Player, { type PlayerHandle } from '@/components/Player'
+import type { CssDiagnostic } from '@/lib/css'
+import type { Diagnostic } from '@/lib/diagnostics'
+import { downloadRecording, importRecordingFiles, RECORDING_FILE_ACCEPT } from '@/lib/files'
+import { isFullSnapshot, type EventIssue, type RecordingEvent } from '@/lib/events'
+
+/**
+ * Drag-and-drop / file picker import of recording files, replayed in the Player
+ */
+export default function RecordingImport() {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const playerRef = useRef<PlayerHandle>(null)
+  const [events, setEvents] = useState<RecordingEvent[]>([])
+  const [issues, setIssues] = useState<EventIssue[]>([])
+  const [cssDiagnostics, setCssDiagnostics] = useState<CssDiagnostic[]>([])
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([])
+  const [fileNames, setFileNames] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+  const [dragging, setDragging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [playerReady, setPlayerReady] = useState(false)
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = fileList ? Array.from(fileList) : []
+    if (files.length === 0) return
+
+    try {
+      setLoading(true)
+      setError(null)
+      setPlayerReady(false)
+      const result = await importRecordingFiles(files)
+      setEvents(result.events)
+      setIssues(result.issues)
+      setCssDiagnostics(result.css)
+      setDiagnostics(result.diagnostics)
+      setFileNames(files.map((file) => file.name))
+    } catch (err) {
+      console.error('Error importing recording:', err)
+      setError(err instanceof Error ? err.message : 'Failed to import recording')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setDragging(false)
+    handleFiles(e.dataTransfer.files)
+  }
+
+  const playable = events.some(isFullSnapshot)
+  const exportName = `${(fileNames[0] ?? 'recording').replace(/\.(nd)?jsonl?$/i, '')}.rrweb.json`
+
+  return (
+    <>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`bg-white rounded-lg shadow-lg p-8 mb-6 border-2 border-dashed text-center transition-colors ${
+          dragging ? 'border-blue-600 bg-blue-50' : 'border-gray-300'
+        }`}
+      >
+        <p className="text-gray-700 mb-4">
+          Drop rrweb or PostHog recording files here (JSON or NDJSON)
+        </p>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={loading}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors disabled:opacity-40"
+        >
+          {loading ? 'Processing…' : 'Choose files'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={RECORDING_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files)
+            e.target.value = ''
+          }}
+        />
+        {fileNames.length > 0 && (
+          <p className="mt-4 text-sm text-gray-500 font-mono">{fileNames.join(', ')}</p>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-red-800 font-semibold">Error</p>
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <details className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+          <summary className="text-yellow-800 cursor-pointer">
+            Skipped {issues.length} malformed event{issues.length === 1 ? '' : 's'}
+          </summary>
+          <ul className="mt-2 text-sm text-yellow-700 font-mono max-h-40 overflow-y-auto">
+            {issues.map((issue, i) => (
+              <li key={i}>#{issue.index}: {issue.reason}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <CssReport diagnostics={cssDiagnostics} recordingStart={events[0]?.timestamp ?? 0} />
+
+      {!loading && fileNames.length > 0 && events.length > 0 && !playable && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+          <p className="text-yellow-800">
+            These files have no full snapshot, so there is nothing to replay
+          </p>
+        </div>
+      )}
+
+      {playable && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <div className="mb-4 text-sm flex items-center justify-between gap-4">
+            {playerReady ? (
+              <span className="text-green-600 font-semibold">✅ Recording loaded successfully</span>
+            ) : (
+              <span className="text-gray-600">Loading {events.length} events...</span>
+            )}
+            <button
+              onClick={() => downloadRecording(events, exportName)}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+            >
+              Export session
+            </button>
+          </div>
+          <div className="h-[80vh] min-h-[600px]">
+            {/* Keyed by the file set so a new import starts a fresh replayer */}
+            <Player key={fileNames.join('|')} ref={playerRef} events={events} onReady={() => setPlayerReady(true)} />
+          </div>
+        </div>
+      )}
+
+      {!loading && fileNames.length > 0 && (
+        <EventInspector
+          key={fileNames.join('|')}
+          events={events}
+          diagnostics={diagnostics}
+          timelineStart={events[0]?.timestamp ?? 0}
+          getCurrentTime={playable ? () => playerRef.current?.getCurrentTime() ?? 0 : undefined}
+          onSeek={playable ? (time) => playerRef.current?.seek(time) : undefined}
+        />
+      )}
+    </>
+  )
+}
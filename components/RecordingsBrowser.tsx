@@ -0,0 +1,274 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { fetchRecordings } from '@/lib/api'
+import { formatDuration } from '@/lib/format'
+import { comparePath, filtersToSearchParams, heatmapPath, playlistPath, sessionPath } from '@/lib/routes'
+import type { RecordingFilters, SessionRecording } from '@/lib/types'
+
+interface RecordingsBrowserProps {
+  initialFilters: RecordingFilters
+  projectId?: string
+}
+
+/** Form state keeps raw input strings; they are parsed when filters are applied */
+type FilterForm = Record<keyof RecordingFilters, string>
+
+function toForm(filters: RecordingFilters): FilterForm {
+  return {
+    dateFrom: filters.dateFrom ?? '',
+    dateTo: filters.dateTo ?? '',
+    minDuration: filters.minDuration?.toString() ?? '',
+    maxDuration: filters.maxDuration?.toString() ?? '',
+    person: filters.person ?? '',
+    url: filters.url ?? '',
+  }
+}
+
+function fromForm(form: FilterForm): RecordingFilters {
+  const seconds = (value: string) => {
+    const parsed = Number(value)
+    return value.trim() !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+  }
+  return {
+    dateFrom: form.dateFrom.trim() || undefined,
+    dateTo: form.dateTo.trim() || undefined,
+    minDuration: seconds(form.minDuration),
+    maxDuration: seconds(form.maxDuration),
+    person: form.person.trim() || undefined,
+    url: form.url.trim() || undefined,
+  }
+}
+
+function personLabel(recording: SessionRecording): string {
+  const name = recording.person?.name
+  return name || recording.distinct_id || recording.person?.distinct_ids?.[0] || 'Anonymous'
+}
+
+export default function RecordingsBrowser({ initialFilters, projectId }: RecordingsBrowserProps) {
+  const router = useRouter()
+  const [form, setForm] = useState<FilterForm>(() => toForm(initialFilters))
+  const [filters, setFilters] = useState<RecordingFilters>(initialFilters)
+  // Cursor of every page visited so far; index 0 is the first page
+  const [cursors, setCursors] = useState<(string | null)[]>([null])
+  const [pageIndex, setPageIndex] = useState(0)
+  const [recordings, setRecordings] = useState<SessionRecording[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Up to two sessions picked for the side-by-side view
+  const [compareIds, setCompareIds] = useState<string[]>([])
+
+  const cursor = cursors[pageIndex]
+
+  useEffect(() => {
+    let cancelled = false
+    const controller = new AbortController()
+
+    async function loadRecordings() {
+      try {
+        setLoading(true)
+        setError(null)
+        const page = await fetchRecordings(filters, { cursor, projectId, signal: controller.signal })
+        if (cancelled) return
+        setRecordings(page.results)
+        setNextCursor(page.nextCursor)
+      } catch (err) {
+        if (cancelled) return
+        console.error('Error loading recordings:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load recordings')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadRecordings()
+
+    return () => {
+      cancelled = true
+      controller.abort()
+    }
+  }, [filters, cursor, projectId])
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault()
+    const next = fromForm(form)
+    setFilters(next)
+    setCursors([null])
+    setPageIndex(0)
+
+    const params = filtersToSearchParams(next)
+    if (projectId) params.set('projectId', projectId)
+    const query = params.toString()
+    router.replace(`/sessions${query ? `?${query}` : ''}`)
+  }
+
+  const handleNext = () => {
+    if (!nextCursor) return
+    setCursors((prev) => [...prev.slice(0, pageIndex + 1), nextCursor])
+    setPageIndex(pageIndex + 1)
+  }
+
+  const handlePrevious = () => {
+    setPageIndex(Math.max(0, pageIndex - 1))
+  }
+
+  const field = (key: keyof RecordingFilters) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [key]: e.target.value }),
+    className: 'mt-1 w-full border border-gray-300 rounded px-3 py-2 text-gray-900',
+  })
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* Filters */}
+      <form onSubmit={handleApply} className="bg-white rounded-lg shadow-lg p-6 grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+        <label className="text-sm text-gray-700">
+          From
+          <input type="text" placeholder="-7d or 2024-01-31" {...field('dateFrom')} />
+        </label>
+        <label className="text-sm text-gray-700">
+          To
+          <input type="text" placeholder="now" {...field('dateTo')} />
+        </label>
+        <label className="text-sm text-gray-700">
+          Min duration (s)
+          <input type="number" min="0" {...field('minDuration')} />
+        </label>
+        <label className="text-sm text-gray-700">
+          Max duration (s)
+          <input type="number" min="0" {...field('maxDuration')} />
+        </label>
+        <label className="text-sm text-gray-700 col-span-2">
+          Person (UUID or distinct ID)
+          <input type="text" {...field('person')} />
+        </label>
+        <label className="text-sm text-gray-700">
+          URL contains
+          <input type="text" placeholder="/checkout" {...field('url')} />
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
+        >
+          Apply filters
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800 font-semibold">Error</p>
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {recordings.length > 0 && (
+        <div className="flex justify-end items-center gap-3">
+          {compareIds.length === 2 ? (
+            <Link
+              href={comparePath(compareIds[0], compareIds[1], { projectId })}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors"
+            >
+              Compare selected
+            </Link>
+          ) : (
+            <span className="text-sm text-gray-500">Select two sessions to compare them side by side</span>
+          )}
+          <Link
+            href={heatmapPath(recordings.map((recording) => recording.id), { projectId })}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors"
+          >
+            Heatmap of these sessions
+          </Link>
+          <Link
+            href={playlistPath(recordings.map((recording) => recording.id), { projectId })}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded transition-colors"
+          >
+            ▶ Play these {recordings.length} sessions
+          </Link>
+        </div>
+      )}
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-lg overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-700">
+          <thead className="bg-gray-50 text-gray-500 uppercase text-xs">
+            <tr>
+              <th className="px-4 py-3"><span className="sr-only">Compare</span></th>
+              <th className="px-4 py-3">Start time</th>
+              <th className="px-4 py-3">Duration</th>
+              <th className="px-4 py-3">Person</th>
+              <th className="px-4 py-3">Start URL</th>
+              <th className="px-4 py-3 text-right">Clicks</th>
+              <th className="px-4 py-3 text-right">Console errors</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recordings.map((recording) => (
+              <tr key={recording.id} className="border-t border-gray-100 hover:bg-blue-50">
+                <td className="pl-4 py-3">
+                  <input
+                    type="checkbox"
+                    aria-label="Compare this session"
+                    checked={compareIds.includes(recording.id)}
+                    disabled={compareIds.length === 2 && !compareIds.includes(recording.id)}
+                    onChange={(e) => setCompareIds((ids) => (e.target.checked
+                      ? [...ids, recording.id]
+                      : ids.filter((id) => id !== recording.id)))}
+                  />
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <Link href={sessionPath(recording.id, { projectId })} className="text-blue-600 hover:underline">
+                    {new Date(recording.start_time).toLocaleString()}
+                  </Link>
+                </td>
+                <td className="px-4 py-3 font-mono">{formatDuration(recording.recording_duration * 1000)}</td>
+                <td className="px-4 py-3 max-w-[200px] truncate" title={personLabel(recording)}>
+                  {personLabel(recording)}
+                </td>
+                <td className="px-4 py-3 max-w-[320px] truncate" title={recording.start_url}>
+                  {recording.start_url || '—'}
+                </td>
+                <td className="px-4 py-3 text-right">{recording.click_count ?? 0}</td>
+                <td className={`px-4 py-3 text-right ${recording.console_error_count ? 'text-red-600 font-semibold' : ''}`}>
+                  {recording.console_error_count ?? 0}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {loading && (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+
+        {!loading && !error && recordings.length === 0 && (
+          <p className="p-6 text-center text-gray-500">No recordings match these filters</p>
+        )}
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={handlePrevious}
+          disabled={loading || pageIndex === 0}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-40"
+        >
+          ← Previous
+        </button>
+        <span className="text-sm text-gray-600">Page {pageIndex + 1}</span>
+        <button
+          onClick={handleNext}
+          disabled={loading || !nextCursor}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-40"
+        >
+          Next →
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,492 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { notFound } from 'next/navigation'
+import {
+  createAnnotation,
+  deleteAnnotation,
+  fetchAnnotations,
+  fetchPrivacyRules,
+  fetchSessionData,
+  SessionNotFoundError,
+  updateAnnotation,
+  type LoadProgress,
+  type SourceFailure,
+} from '@/lib/api'
+import AnnotationsPanel from '@/components/AnnotationsPanel'
+import CacheControls from '@/components/CacheControls'
+import CssReport from '@/components/CssReport'
+import EventInspector from '@/components/EventInspector'
+import FrustrationPanel from '@/components/FrustrationPanel'
+import Heatmap from '@/components/Heatmap'
+import Player, { type PlayerHandle } from '@/components/Player'
+import SummaryPanel from '@/components/SummaryPanel'
+import type { CssDiagnostic } from '@/lib/css'
+import { recordingDiagnostics, type Diagnostic } from '@/lib/diagnostics'
+import { isFullSnapshot, type EventIssue, type RecordingEvent } from '@/lib/events'
+import { downloadRecording } from '@/lib/files'
+import { formatDuration } from '@/lib/format'
+import {
+  DEFAULT_FRUSTRATION_THRESHOLDS,
+  detectFrustration,
+  frustrationMarkers,
+  type FrustrationThresholds,
+} from '@/lib/frustration'
+import { annotationMarkers } from '@/lib/markers'
+import { DEFAULT_PRIVACY_RULES, Redactor, type PrivacyRule } from '@/lib/privacy'
+import { mergeRanges } from '@/lib/ranges'
+import { sessionPath } from '@/lib/routes'
+import { summarizeSession } from '@/lib/summary'
+import type { Annotation, AnnotationInput, AnnotationPatch, TimeRange } from '@/lib/types'
+
+interface SessionReplayProps {
+  sessionId: string
+  projectId?: string
+  /** Time to start at, in ms from the start of the recording (from `?t=`) */
+  initialTime?: number
+  /** Admins may turn privacy masking off; everyone else always sees masked recordings */
+  isAdmin?: boolean
+  /** Start playing as soon as the player is ready */
+  autoPlay?: boolean
+  /** Called once every blob has been loaded (or has failed) */
+  onLoaded?: () => void
+  /** Called when playback reaches the end of the fully loaded recording */
+  onFinish?: () => void
+  /** Called with the playback position as a whole percentage of the recording */
+  onPlaybackProgress?: (percent: number) => void
+}
+
+// Gaps between consecutive blobs smaller than this are not worth showing as unloaded
+const BUFFER_GAP_TOLERANCE = 1000
+
+export default function SessionReplay({
+  sessionId,
+  projectId,
+  initialTime,
+  isAdmin = false,
+  autoPlay = false,
+  onLoaded,
+  onFinish,
+  onPlaybackProgress,
+}: SessionReplayProps) {
+  const playerRef = useRef<PlayerHandle>(null)
+  const onLoadedRef = useRef(onLoaded)
+  // Unmasked events as loaded, kept for admins only; `events` is what the player shows (masked or not)
+  const rawEventsRef = useRef<RecordingEvent[]>([])
+  const rulesRef = useRef<PrivacyRule[]>(DEFAULT_PRIVACY_RULES)
+  // Set while an admin has masking on; follows the DOM across chunks, so chunks must pass through it in order
+  const redactorRef = useRef<Redactor | null>(null)
+  const [events, setEvents] = useState<RecordingEvent[]>([])
+  const [issues, setIssues] = useState<EventIssue[]>([])
+  const [cssDiagnostics, setCssDiagnostics] = useState<CssDiagnostic[]>([])
+  const [loadDiagnostics, setLoadDiagnostics] = useState<Diagnostic[]>([])
+  const [totalRange, setTotalRange] = useState<TimeRange | null>(null)
+  const [bufferedRanges, setBufferedRanges] = useState<TimeRange[]>([])
+  const [failures, setFailures] = useState<SourceFailure[]>([])
+  const [sourceCount, setSourceCount] = useState(0)
+  const [progress, setProgress] = useState<LoadProgress | null>(null)
+  const [cachedCount, setCachedCount] = useState(0)
+  // Playable once a FullSnapshot has arrived; streaming until every blob is in
+  const [playable, setPlayable] = useState(false)
+  const [streaming, setStreaming] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [missing, setMissing] = useState(false)
+  const [showHeatmap, setShowHeatmap] = useState(false)
+  const [frustrationThresholds, setFrustrationThresholds] = useState<FrustrationThresholds>(DEFAULT_FRUSTRATION_THRESHOLDS)
+  const [playerReady, setPlayerReady] = useState(false)
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [masked, setMasked] = useState(!isAdmin)
+  const [redactedCount, setRedactedCount] = useState(0)
+  // Where to resume after the player is remounted by a masking toggle
+  const [resumeTime, setResumeTime] = useState(initialTime)
+
+  useEffect(() => {
+    onLoadedRef.current = onLoaded
+  }, [onLoaded])
+
+  useEffect(() => {
+    let cancelled = false
+    // Cancels downloads and pending retries when the user navigates away
+    const controller = new AbortController()
+
+    async function loadSession() {
+      try {
+        try {
+          rulesRef.current = await fetchPrivacyRules({ projectId, signal: controller.signal })
+        } catch (err) {
+          if (cancelled) return
+          // Fail closed: mask with the built-in rules rather than not at all
+          console.warn('Failed to load privacy rules, using defaults:', err)
+        }
+        redactorRef.current = null
+
+        await fetchSessionData(sessionId, {
+          projectId,
+          signal: controller.signal,
+          // Everyone else gets events masked before they are cached or reach this component
+          redactor: isAdmin ? undefined : new Redactor(rulesRef.current),
+          onSources: (sources, range) => {
+            if (cancelled) return
+            setSourceCount(sources.length)
+            setTotalRange(range)
+          },
+          onProgress: (next) => {
+            if (!cancelled) setProgress(next)
+          },
+          onChunk: (chunk) => {
+            if (cancelled) return
+            if (chunk.cached) setCachedCount((count) => count + 1)
+            if (chunk.diagnostics.length > 0) {
+              setLoadDiagnostics((prev) => [...prev, ...chunk.diagnostics])
+            }
+            if (chunk.error) {
+              const failure = { index: chunk.index, range: chunk.range, message: chunk.error }
+              setFailures((prev) => [...prev, failure])
+              return
+            }
+            if (chunk.css.length > 0) {
+              setCssDiagnostics((prev) => [...prev, ...chunk.css])
+            }
+            if (chunk.events.length === 0 && chunk.issues.length === 0) return
+            if (isAdmin) rawEventsRef.current.push(...chunk.events)
+            const redactor = redactorRef.current
+            const shown = redactor ? redactor.redactAll(chunk.events) : chunk.events
+            if (redactor) setRedactedCount(redactor.redactedCount)
+            else if (chunk.redacted > 0) setRedactedCount((count) => count + chunk.redacted)
+            setEvents((prev) => [...prev, ...shown])
+            setIssues((prev) => [...prev, ...chunk.issues])
+            if (chunk.range) {
+              const range = chunk.range
+              setBufferedRanges((prev) => mergeRanges([...prev, range], BUFFER_GAP_TOLERANCE))
+            }
+            if (chunk.events.some(isFullSnapshot)) {
+              setPlayable(true)
+            }
+          },
+        })
+      } catch (err) {
+        if (cancelled) return
+        if (err instanceof SessionNotFoundError) {
+          setMissing(true)
+          return
+        }
+        console.error('Error loading session:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load session')
+      } finally {
+        if (!cancelled) {
+          setStreaming(false)
+          onLoadedRef.current?.()
+        }
+      }
+    }
+
+    loadSession()
+
+    return () => {
+      cancelled = true
+      controller.abort()
+    }
+  }, [sessionId, projectId, isAdmin])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    fetchAnnotations(sessionId, { projectId, signal: controller.signal })
+      .then(setAnnotations)
+      .catch((err) => {
+        if (!controller.signal.aborted) console.warn('Failed to load annotations:', err)
+      })
+    return () => controller.abort()
+  }, [sessionId, projectId])
+
+  useEffect(() => {
+    if (!linkCopied) return
+    const timeout = setTimeout(() => setLinkCopied(false), 2000)
+    return () => clearTimeout(timeout)
+  }, [linkCopied])
+
+  const frustration = useMemo(() => detectFrustration(events, frustrationThresholds), [events, frustrationThresholds])
+  const markers = useMemo(
+    () => [...annotationMarkers(annotations), ...frustrationMarkers(frustration)],
+    [annotations, frustration]
+  )
+  const heatmapRecordings = useMemo(() => [events], [events])
+  const summary = useMemo(() => summarizeSession(events, totalRange ?? undefined), [events, totalRange])
+  // Whole-recording checks wait for the last blob, which may still bring the FullSnapshot
+  const diagnostics = useMemo(
+    () => (streaming ? loadDiagnostics : [...loadDiagnostics, ...recordingDiagnostics(events)]),
+    [streaming, loadDiagnostics, events]
+  )
+
+  if (missing) {
+    notFound()
+  }
+
+  const recordingStart = totalRange?.start ?? events[0]?.timestamp ?? 0
+  const missingRanges = failures.flatMap((failure) => (failure.range ? [failure.range] : []))
+  // Same origin as the player's timeline
+  const timelineStart = events[0]?.timestamp ?? recordingStart
+
+  const sortByTime = (list: Annotation[]) => [...list].sort((a, b) => a.timestamp - b.timestamp)
+
+  const handleCreateAnnotation = async (input: AnnotationInput) => {
+    const created = await createAnnotation(sessionId, input, { projectId })
+    setAnnotations((prev) => sortByTime([...prev, created]))
+  }
+
+  const handleUpdateAnnotation = async (annotationId: string, patch: AnnotationPatch) => {
+    const updated = await updateAnnotation(sessionId, annotationId, patch, { projectId })
+    setAnnotations((prev) => sortByTime(prev.map((annotation) => (annotation.id === annotationId ? updated : annotation))))
+  }
+
+  const handleDeleteAnnotation = async (annotationId: string) => {
+    await deleteAnnotation(sessionId, annotationId, { projectId })
+    setAnnotations((prev) => prev.filter((annotation) => annotation.id !== annotationId))
+  }
+
+  const handleToggleMasking = () => {
+    if (!isAdmin) return
+    const next = !masked
+    const redactor = next ? new Redactor(rulesRef.current) : null
+    redactorRef.current = redactor
+    setResumeTime(playerRef.current?.getCurrentTime() ?? initialTime)
+    setEvents(redactor ? redactor.redactAll(rawEventsRef.current) : [...rawEventsRef.current])
+    setRedactedCount(redactor?.redactedCount ?? 0)
+    setPlayerReady(false)
+    setMasked(next)
+  }
+
+  const handleToggleHeatmap = () => {
+    if (!showHeatmap) playerRef.current?.pause()
+    setShowHeatmap(!showHeatmap)
+  }
+
+  const handleCopyLink = async () => {
+    const time = playerRef.current?.getCurrentTime() ?? 0
+    const url = `${window.location.origin}${sessionPath(sessionId, { projectId, time })}`
+    try {
+      await navigator.clipboard.writeText(url)
+      setLinkCopied(true)
+    } catch (err) {
+      console.error('Error copying link:', err)
+    }
+  }
+
+  return (
+    <>
+      {streaming && !playable && !error && (
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center w-80">
+            <div
+              className="h-2 w-full bg-gray-200 rounded overflow-hidden mb-4"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={progress?.percent ?? 0}
+            >
+              <div
+                className="h-full bg-blue-600 transition-[width] duration-200"
+                style={{ width: `${progress?.percent ?? 0}%` }}
+              />
+            </div>
+            <p className="text-gray-600">
+              {progress
+                ? `Loading session recording... ${progress.percent}% (${progress.loadedSources}/${progress.totalSources} blobs)`
+                : 'Loading session recording...'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-red-800 font-semibold">Error</p>
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-6">
+          <p className="text-orange-800 font-semibold">
+            Parts of this recording could not be loaded and will be skipped
+          </p>
+          <ul className="mt-2 text-sm text-orange-700">
+            {failures.map((failure) => (
+              <li key={failure.index}>
+                {failure.range
+                  ? `${formatDuration(failure.range.start - recordingStart)}–${formatDuration(failure.range.end - recordingStart)}`
+                  : `Blob ${failure.index + 1}`}
+                : {failure.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <details className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+          <summary className="text-yellow-800 cursor-pointer">
+            Skipped {issues.length} malformed event{issues.length === 1 ? '' : 's'}
+          </summary>
+          <ul className="mt-2 text-sm text-yellow-700 font-mono max-h-40 overflow-y-auto">
+            {issues.map((issue) => (
+              <li key={`${issue.source ?? ''}:${issue.index}`}>
+                {issue.source !== undefined && `blob ${issue.source} `}#{issue.index}: {issue.reason}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <CssReport diagnostics={cssDiagnostics} recordingStart={timelineStart} />
+
+      {events.length > 0 && (
+        <SummaryPanel
+          summary={summary}
+          recordingStart={timelineStart}
+          filename={`session-${sessionId}-summary.json`}
+          partial={streaming}
+        />
+      )}
+
+      {playable && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <div className="mb-4 text-sm flex items-center justify-between gap-4">
+            {streaming ? (
+              <span className="text-gray-600">
+                Buffering {progress?.loadedSources ?? 0}/{sourceCount} blobs, {progress?.percent ?? 0}% ({events.length} events)...
+              </span>
+            ) : playerReady ? (
+              <span className="text-green-600 font-semibold">
+                ✅ Recording loaded successfully
+                {cachedCount > 0 && ` (${cachedCount}/${sourceCount} blobs from cache)`}
+              </span>
+            ) : (
+              <span className="text-gray-600">Loading {events.length} events...</span>
+            )}
+            <div className="flex items-center gap-3">
+              <span className={masked ? 'text-gray-600' : 'text-red-600 font-semibold'}>
+                {masked ? `🔒 ${redactedCount} value${redactedCount === 1 ? '' : 's'} masked` : 'Unmasked'}
+              </span>
+              {isAdmin && (
+                <button
+                  onClick={handleToggleMasking}
+                  aria-pressed={masked}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+                >
+                  {masked ? 'Show unmasked' : 'Mask private data'}
+                </button>
+              )}
+              <button
+                onClick={handleCopyLink}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+              >
+                {linkCopied ? 'Link copied' : 'Copy link at current time'}
+              </button>
+              <button
+                onClick={handleToggleHeatmap}
+                disabled={streaming}
+                aria-pressed={showHeatmap}
+                title={streaming ? 'Available once the whole recording has loaded' : undefined}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-40"
+              >
+                {showHeatmap ? 'Back to replay' : 'Heatmap'}
+              </button>
+              <button
+                onClick={() => downloadRecording(events, `session-${sessionId}.rrweb.json`, annotations)}
+                disabled={streaming}
+                title={streaming ? 'Available once the whole recording has loaded' : undefined}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-40"
+              >
+                Export session
+              </button>
+              <CacheControls />
+            </div>
+          </div>
+          {showHeatmap && <Heatmap recordings={heatmapRecordings} />}
+          {/* Kept mounted behind the heatmap so playback resumes where it was */}
+          <div className={showHeatmap ? 'hidden' : 'h-[80vh] min-h-[600px]'}>
+            {/* Remounted when masking is toggled, since the events are replaced rather than appended */}
+            <Player
+              key={masked ? 'masked' : 'unmasked'}
+              ref={playerRef}
+              events={events}
+              bufferedRanges={bufferedRanges}
+              missingRanges={missingRanges}
+              totalRange={totalRange}
+              initialTime={resumeTime}
+              extraMarkers={markers}
+              panels={[
+                {
+                  id: 'notes',
+                  label: `Notes (${annotations.length})`,
+                  content: (
+                    <AnnotationsPanel
+                      annotations={annotations}
+                      timelineStart={timelineStart}
+                      getCurrentTime={() => playerRef.current?.getCurrentTime() ?? 0}
+                      onSeek={(time) => playerRef.current?.seek(time)}
+                      onCreate={handleCreateAnnotation}
+                      onUpdate={handleUpdateAnnotation}
+                      onDelete={handleDeleteAnnotation}
+                    />
+                  ),
+                },
+                {
+                  id: 'frustration',
+                  label: `Frustration (${frustration.length})`,
+                  content: (
+                    <FrustrationPanel
+                      signals={frustration}
+                      thresholds={frustrationThresholds}
+                      onThresholdsChange={setFrustrationThresholds}
+                      timelineStart={timelineStart}
+                      onSeek={(time) => playerRef.current?.seek(time)}
+                    />
+                  ),
+                },
+              ]}
+              onReady={() => {
+                setPlayerReady(true)
+                if (autoPlay) playerRef.current?.play()
+              }}
+              onTimeUpdate={onPlaybackProgress && ((time) => {
+                const duration = (totalRange ? totalRange.end - totalRange.start : 0) ||
+                  (events[events.length - 1]?.timestamp ?? 0) - timelineStart
+                if (duration > 0) onPlaybackProgress(Math.min(100, Math.floor((time / duration) * 100)))
+              })}
+              onStateChange={(state) => {
+                // The replayer also finishes when it catches up with a recording that is still loading
+                if (state === 'finished' && !streaming) onFinish?.()
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {!streaming && !error && events.length === 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800">No events found for session {sessionId}</p>
+        </div>
+      )}
+
+      {!streaming && !error && events.length > 0 && !playable && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800">
+            This recording has no full snapshot, so there is nothing to replay
+          </p>
+        </div>
+      )}
+
+      {(events.length > 0 || diagnostics.length > 0) && (
+        <EventInspector
+          events={events}
+          diagnostics={diagnostics}
+          timelineStart={timelineStart}
+          getCurrentTime={playable ? () => playerRef.current?.getCurrentTime() ?? 0 : undefined}
+          onSeek={playable ? (time) => playerRef.current?.seek(time) : undefined}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Heatmap from '@/components/Heatmap'
+import { fetchMaskedSession, fetchSessionData } from '@/lib/api'
+import type { RecordingEvent } from '@/lib/events'
+
+interface SessionsHeatmapProps {
+  sessionIds: string[]
+  projectId?: string
+  /** Admins see the pages unmasked, like on the session page */
+  isAdmin?: boolean
+}
+
+interface LoadState {
+  recordings: RecordingEvent[][]
+  /** Sessions finished, loaded or failed */
+  done: number
+  percent: number
+  errors: { sessionId: string; message: string }[]
+}
+
+/**
+ * Loads sessions one after another and aggregates them into one heatmap,
+ * which is redrawn as each session arrives
+ */
+export default function SessionsHeatmap({ sessionIds, projectId, isAdmin = false }: SessionsHeatmapProps) {
+  const [state, setState] = useState<LoadState>({ recordings: [], done: 0, percent: 0, errors: [] })
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    async function load() {
+      for (const sessionId of sessionIds) {
+        try {
+          const { events } = await (isAdmin ? fetchSessionData : fetchMaskedSession)(sessionId, {
+            projectId,
+            signal: controller.signal,
+            onProgress: (progress) => setState((prev) => ({ ...prev, percent: progress.percent })),
+          })
+          setState((prev) => ({ ...prev, recordings: [...prev.recordings, events], done: prev.done + 1, percent: 0 }))
+        } catch (err) {
+          if (controller.signal.aborted) return
+          console.error(`Error loading session ${sessionId}:`, err)
+          const message = err instanceof Error ? err.message : 'Failed to load session'
+          setState((prev) => ({ ...prev, done: prev.done + 1, percent: 0, errors: [...prev.errors, { sessionId, message }] }))
+        }
+      }
+    }
+
+    load()
+    return () => controller.abort()
+  }, [sessionIds, projectId, isAdmin])
+
+  const loading = state.done < sessionIds.length
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 flex flex-col gap-4">
+      {loading && (
+        <p className="text-sm text-gray-600">
+          Loading session {state.done + 1} of {sessionIds.length}, {state.percent}%...
+        </p>
+      )}
+
+      {state.errors.length > 0 && (
+        <ul className="text-sm text-red-600">
+          {state.errors.map((error) => (
+            <li key={error.sessionId}>
+              <span className="font-mono">{error.sessionId}</span>: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {state.recordings.length > 0 ? (
+        <Heatmap recordings={state.recordings} />
+      ) : (
+        !loading && <p className="text-gray-600">None of the sessions could be loaded</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+export const SHORTCUTS: Array<{ keys: string[], description: string }> = [
+  { keys: ['Space'], description: 'Play / pause' },
+  { keys: ['←', '→'], description: 'Step back / forward 5 seconds' },
+  { keys: ['Shift + ←', 'Shift + →'], description: 'Step back / forward 1 second' },
+  { keys: ['[', ']'], description: 'Slower / faster' },
+  { keys: [',', '.'], description: 'Previous / next marker' },
+  { keys: ['f'], description: 'Toggle fullscreen' },
+  { keys: ['?'], description: 'Show / hide this help' },
+]
+
+interface ShortcutHelpProps {
+  onClose: () => void
+}
+
+/**
+ * Modal listing the player's keyboard shortcuts
+ */
+export default function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const closeRef = useRef<HTMLButtonElement>(null)
+
+  useEffect(() => {
+    closeRef.current?.focus()
+  }, [])
+
+  return (
+    <div
+      className="absolute inset-0 z-20 flex items-center justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape' || e.key === '?') {
+            e.preventDefault()
+            e.stopPropagation()
+            onClose()
+          }
+        }}
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 text-gray-900"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="shortcut-help-title" className="text-lg font-semibold">Keyboard shortcuts</h2>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            aria-label="Close keyboard shortcuts"
+            className="px-2 py-1 rounded hover:bg-gray-100"
+          >
+            ✕
+          </button>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+          {SHORTCUTS.map(({ keys, description }) => (
+            <div key={description} className="contents">
+              <dt className="flex gap-1">
+                {keys.map((key) => (
+                  <kbd key={key} className="px-1.5 py-0.5 rounded border border-gray-300 bg-gray-50 font-mono text-xs">
+                    {key}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className="text-gray-700">{description}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  )
+}
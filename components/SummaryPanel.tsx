@@ -0,0 +1,131 @@
+'use client'
+
+import { downloadBlob } from '@/lib/files'
+import { formatDuration } from '@/lib/format'
+import type { SessionSummary } from '@/lib/summary'
+
+interface SummaryPanelProps {
+  summary: SessionSummary
+  /** Timestamp that times are shown relative to */
+  recordingStart: number
+  /** Name of the downloaded JSON file */
+  filename: string
+  /** The summary is still growing while blobs load */
+  partial?: boolean
+}
+
+// Errors and failed requests listed before "and N more"
+const LIST_LIMIT = 5
+
+function Stat({ label, value, detail }: { label: string, value: string | number, detail?: string }) {
+  return (
+    <div className="bg-white rounded border border-gray-200 px-3 py-2">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-lg font-semibold text-gray-900 tabular-nums">{value}</div>
+      {detail && <div className="text-xs text-gray-500">{detail}</div>}
+    </div>
+  )
+}
+
+/**
+ * What happened in the recording, shown above the player and downloadable as JSON
+ */
+export default function SummaryPanel({ summary, recordingStart, filename, partial = false }: SummaryPanelProps) {
+  const activeShare = summary.duration > 0 ? Math.round((summary.activeDuration / summary.duration) * 100) : 0
+  const { mutations, consoleErrors, failedRequests } = summary
+  const relative = (timestamp: number) => formatDuration(Math.max(0, timestamp - recordingStart))
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([JSON.stringify(summary, null, 2)], { type: 'application/json' }), filename)
+  }
+
+  return (
+    <details open className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
+      <summary className="text-gray-800 cursor-pointer">
+        Summary: {formatDuration(summary.duration)}, {summary.pages.length} page{summary.pages.length === 1 ? '' : 's'},{' '}
+        {summary.clicks} click{summary.clicks === 1 ? '' : 's'}, {consoleErrors.length} console error{consoleErrors.length === 1 ? '' : 's'},{' '}
+        {failedRequests.length} failed request{failedRequests.length === 1 ? '' : 's'}
+        {partial && <span className="text-gray-500"> (still loading)</span>}
+      </summary>
+
+      <div className="mt-3 flex flex-col gap-4 text-sm">
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-2">
+          <Stat label="Duration" value={formatDuration(summary.duration)} />
+          <Stat label="Active" value={formatDuration(summary.activeDuration)} detail={`${activeShare}% of the time`} />
+          <Stat label="Clicks" value={summary.clicks} />
+          <Stat label="Keypresses" value={summary.keypresses} detail="input changes" />
+          <Stat label="Scrolls" value={summary.scrolls} />
+          <Stat
+            label="DOM mutations"
+            value={mutations.events}
+            detail={`${mutations.adds} adds, ${mutations.removes} removes, ${mutations.attributes + mutations.texts} changes`}
+          />
+          <Stat
+            label="Viewport changes"
+            value={Math.max(0, summary.viewports.length - 1)}
+            detail={summary.viewports.map((size) => `${size.width}×${size.height}`).join(' → ') || undefined}
+          />
+          <Stat label="Errors" value={consoleErrors.length + failedRequests.length} detail="console and network" />
+        </div>
+
+        {summary.pages.length > 0 && (
+          <table className="w-full text-left">
+            <thead className="text-xs text-gray-500">
+              <tr>
+                <th className="pr-3 font-semibold">Page</th>
+                <th className="pr-3 font-semibold text-right">Visits</th>
+                <th className="pr-3 font-semibold text-right">Time</th>
+                <th className="font-semibold text-right">Active</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.pages.map((page) => (
+                <tr key={page.href} className="border-t border-gray-200">
+                  <td className="pr-3 py-1 font-mono text-xs text-gray-700 break-all">{page.href}</td>
+                  <td className="pr-3 py-1 text-right tabular-nums">{page.visits}</td>
+                  <td className="pr-3 py-1 text-right tabular-nums">{formatDuration(page.duration)}</td>
+                  <td className="py-1 text-right tabular-nums">{formatDuration(page.activeDuration)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {consoleErrors.length > 0 && (
+          <div>
+            <h3 className="text-xs font-semibold text-gray-500">Console errors</h3>
+            <ul className="font-mono text-xs text-red-700">
+              {consoleErrors.slice(0, LIST_LIMIT).map((error, i) => (
+                <li key={i} className="truncate">
+                  <span className="text-gray-500">{relative(error.timestamp)}</span> {error.message}
+                </li>
+              ))}
+            </ul>
+            {consoleErrors.length > LIST_LIMIT && <p className="text-xs text-gray-500">and {consoleErrors.length - LIST_LIMIT} more</p>}
+          </div>
+        )}
+
+        {failedRequests.length > 0 && (
+          <div>
+            <h3 className="text-xs font-semibold text-gray-500">Failed requests</h3>
+            <ul className="font-mono text-xs text-red-700">
+              {failedRequests.slice(0, LIST_LIMIT).map((request, i) => (
+                <li key={i} className="truncate">
+                  <span className="text-gray-500">{relative(request.timestamp)}</span> {request.status} {request.method} {request.url}
+                </li>
+              ))}
+            </ul>
+            {failedRequests.length > LIST_LIMIT && <p className="text-xs text-gray-500">and {failedRequests.length - LIST_LIMIT} more</p>}
+          </div>
+        )}
+
+        <button
+          onClick={handleDownload}
+          className="self-start px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+        >
+          Download summary (JSON)
+        </button>
+      </div>
+    </details>
+  )
+}
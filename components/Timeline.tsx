@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDuration } from '@/lib/format'
+import { MARKER_TYPES, type MarkerType, type TimelineMarker } from '@/lib/markers'
+import type { TimeRange } from '@/lib/types'
+
+interface TimelineProps {
+  /** Playback position, in ms from the start of the timeline */
+  currentTime: number
+  /** Length of the timeline in ms */
+  duration: number
+  /** Epoch ms the timeline starts at; markers and ranges are positioned relative to it */
+  timelineStart: number
+  markers: TimelineMarker[]
+  hiddenTypes: Set<MarkerType>
+  onToggleType: (type: MarkerType) => void
+  bufferedRanges?: TimeRange[]
+  missingRanges?: TimeRange[]
+  /** Inactive periods, shaded on the track */
+  idleRanges?: TimeRange[]
+  /** Called with a time in ms from the start of the timeline */
+  onSeek: (time: number) => void
+  /** Called when the user starts and stops dragging the scrubber */
+  onScrubStart?: () => void
+  onScrubEnd?: () => void
+}
+
+/**
+ * Scrubber with markers for the interesting moments of a recording
+ */
+export default function Timeline({
+  currentTime,
+  duration,
+  timelineStart,
+  markers,
+  hiddenTypes,
+  onToggleType,
+  bufferedRanges,
+  missingRanges,
+  idleRanges,
+  onSeek,
+  onScrubStart,
+  onScrubEnd,
+}: TimelineProps) {
+  const [hovered, setHovered] = useState<TimelineMarker | null>(null)
+
+  const handlePointerDown = () => {
+    onScrubStart?.()
+    // The pointer may be released outside the slider
+    const end = () => {
+      window.removeEventListener('pointerup', end)
+      window.removeEventListener('pointercancel', end)
+      onScrubEnd?.()
+    }
+    window.addEventListener('pointerup', end)
+    window.addEventListener('pointercancel', end)
+  }
+
+  const position = (timestamp: number) =>
+    duration > 0 ? Math.min(1, Math.max(0, (timestamp - timelineStart) / duration)) : 0
+
+  const counts = markers.reduce<Partial<Record<MarkerType, number>>>((acc, marker) => {
+    acc[marker.type] = (acc[marker.type] ?? 0) + 1
+    return acc
+  }, {})
+  const visibleMarkers = markers.filter((marker) => !hiddenTypes.has(marker.type))
+
+  return (
+    <div className="flex-1 flex flex-col gap-1">
+      {/* Markers */}
+      <div className="relative h-3 w-full" role="group" aria-label="Markers" onMouseLeave={() => setHovered(null)}>
+        {/* Ranges of markers that span time, under the markers themselves */}
+        {duration > 0 && visibleMarkers.filter((marker) => marker.endTimestamp !== undefined).map((marker) => (
+          <div
+            key={`range-${marker.id}`}
+            className={`absolute top-1 h-1 rounded-sm opacity-50 pointer-events-none ${MARKER_TYPES[marker.type].color}`}
+            style={{
+              left: `${position(marker.timestamp) * 100}%`,
+              width: `${Math.max(0, position(marker.endTimestamp!) - position(marker.timestamp)) * 100}%`,
+            }}
+          />
+        ))}
+        {visibleMarkers.map((marker) => (
+          <button
+            key={marker.id}
+            onClick={() => onSeek(marker.timestamp - timelineStart)}
+            onMouseEnter={() => setHovered(marker)}
+            onFocus={() => setHovered(marker)}
+            onBlur={() => setHovered(null)}
+            aria-label={`${marker.label} at ${formatDuration(marker.timestamp - timelineStart)}`}
+            className={`absolute top-0 h-3 w-1 -translate-x-1/2 rounded-sm hover:scale-150 transition-transform ${MARKER_TYPES[marker.type].color}`}
+            style={{ left: `${position(marker.timestamp) * 100}%` }}
+          />
+        ))}
+        {hovered && (
+          <div
+            className={`absolute bottom-full mb-2 z-10 w-64 p-2 rounded bg-gray-800 border border-gray-600 text-xs shadow-lg pointer-events-none ${
+              position(hovered.timestamp) < 0.2 ? '' : position(hovered.timestamp) > 0.8 ? '-translate-x-full' : '-translate-x-1/2'
+            }`}
+            style={{ left: `${position(hovered.timestamp) * 100}%` }}
+          >
+            <div className="flex justify-between gap-2">
+              <span className="font-semibold">{hovered.label}</span>
+              <span className="text-gray-400">
+                {formatDuration(hovered.timestamp - timelineStart)}
+                {hovered.endTimestamp !== undefined && `–${formatDuration(hovered.endTimestamp - timelineStart)}`}
+              </span>
+            </div>
+            {hovered.detail && <div className="mt-1 text-gray-300 font-mono break-all">{hovered.detail}</div>}
+          </div>
+        )}
+      </div>
+
+      <div className="relative">
+        {/* Idle periods */}
+        {duration > 0 && idleRanges?.map((range) => (
+          <div
+            key={`idle-${range.start}-${range.end}`}
+            title="Inactive"
+            className="absolute inset-y-0 bg-gray-600/60 rounded-sm pointer-events-none"
+            style={{
+              left: `${position(range.start) * 100}%`,
+              width: `${Math.max(0, Math.min(1, (range.end - range.start) / duration)) * 100}%`,
+            }}
+          />
+        ))}
+        <input
+          type="range"
+          min="0"
+          max={duration || 100}
+          value={Math.min(currentTime, duration)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          onPointerDown={handlePointerDown}
+          aria-label="Seek"
+          aria-valuetext={`${formatDuration(currentTime)} of ${formatDuration(duration)}`}
+          className="relative w-full"
+        />
+      </div>
+
+      {/* Buffered ranges: light segments are loaded, red ones failed, the dark track is still downloading */}
+      {(bufferedRanges || missingRanges) && duration > 0 && (
+        <div className="relative h-1 w-full bg-gray-700 rounded overflow-hidden" aria-hidden="true">
+          {[
+            ...(bufferedRanges ?? []).map((range) => ({ range, className: 'bg-gray-400' })),
+            ...(missingRanges ?? []).map((range) => ({ range, className: 'bg-red-500' })),
+          ].map(({ range, className }) => (
+            <div
+              key={`${className}-${range.start}-${range.end}`}
+              className={`absolute top-0 h-full ${className}`}
+              style={{
+                left: `${position(range.start) * 100}%`,
+                width: `${Math.max(0, Math.min(1, (range.end - range.start) / duration)) * 100}%`,
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Per-type toggles */}
+      {markers.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {(Object.keys(MARKER_TYPES) as MarkerType[])
+            .filter((type) => counts[type])
+            .map((type) => (
+              <button
+                key={type}
+                onClick={() => onToggleType(type)}
+                aria-pressed={!hiddenTypes.has(type)}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded transition-colors ${
+                  hiddenTypes.has(type) ? 'bg-gray-800 text-gray-500' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                <span className={`inline-block w-2 h-2 rounded-sm ${MARKER_TYPES[type].color}`} />
+                {MARKER_TYPES[type].label} ({counts[type]})
+              </button>
+            ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import { EventType, type CustomEvent } from './events'
+import type { Annotation } from './types'
+
+/**
+ * Annotations inside rrweb recordings. Exported sessions carry their notes as
+ * custom events with this tag, so they survive a round trip through a file.
+ */
+
+export const ANNOTATION_EVENT_TAG = 'annotation'
+
+export interface AnnotationEventPayload {
+    text: string
+    endTimestamp?: number
+}
+
+export function annotationToEvent(annotation: Annotation): CustomEvent<AnnotationEventPayload> {
+    return {
+        type: EventType.Custom,
+        timestamp: annotation.timestamp,
+        data: {
+            tag: ANNOTATION_EVENT_TAG,
+            payload: { text: annotation.text, endTimestamp: annotation.endTimestamp },
+        },
+    }
+}
@@ -1,322 +1,491 @@
+import { blobCacheKey, getCachedBlob, getCachedSources, putCachedBlob, putCachedSources } from './cache'
 import { config } from './config'
-import pako from 'pako'
+import type { CssDiagnostic } from './css'
+import { fetchWithRetry, isAbortError } from './http'
+import { recordingDiagnostics, type Diagnostic } from './diagnostics'
+import type { EventIssue, EventValidationResult, RecordingEvent } from './events'
+import { DEFAULT_PRIVACY_RULES, parsePrivacyRules, Redactor, type PrivacyRule } from './privacy'
+import { processInWorker } from './worker/client'
+import { filtersToSearchParams } from './routes'
+import type {
+    Annotation,
+    AnnotationInput,
+    AnnotationPatch,
+    RecordingFilters,
+    RecordingsPage,
+    Source,
+    SourcesResponse,
+    TimeRange,
+} from './types'
 
 /**
- * Types for PostHog API responses
+ * Options for loading a session recording
  */
-interface Source {
-    source: string
-    blob_key?: string
-    start_blob_key?: string
-    end_blob_key?: string
+export interface SessionRequestOptions {
+    /** PostHog project to read from; defaults to the server's POSTHOG_PROJECT_ID */
+    projectId?: string
+    /** Cancels in-flight requests and pending retries */
+    signal?: AbortSignal
 }
 
-interface SourcesResponse {
-    sources: Source[]
+/**
+ * Thrown when PostHog does not know the requested session
+ */
+export class SessionNotFoundError extends Error {
+    constructor(public sessionId: string) {
+        super(`Session recording ${sessionId} was not found`)
+        this.name = 'SessionNotFoundError'
+    }
 }
 
 /**
- * Fetches the list of sources (blob storage locations) for a session recording
+ * Builds the URL of one of our recording route handlers
  */
-async function fetchSources(): Promise<SourcesResponse> {
-    const url = `${config.apiHost}/api/projects/${config.projectId}/session_recordings/${config.sessionId}/snapshots?blob_v2=true`
+function recordingUrl(sessionId: string, endpoint: string, params: URLSearchParams, options: SessionRequestOptions): string {
+    if (options.projectId) params.set('projectId', options.projectId)
+    const query = params.toString()
+    return `/api/recordings/${encodeURIComponent(sessionId)}/${endpoint}${query ? `?${query}` : ''}`
+}
 
-    const response = await fetch(url, {
-        headers: {
-            'Authorization': `Bearer ${config.apiKey}`
-        }
-    })
+/**
+ * Fetches one page of session recordings matching the filters.
+ * Pass the previous page's `nextCursor` to continue.
+ */
+export async function fetchRecordings(
+    filters: RecordingFilters,
+    options: SessionRequestOptions & { cursor?: string | null } = {}
+): Promise<RecordingsPage> {
+    const params = filtersToSearchParams(filters)
+    if (options.cursor) params.set('cursor', options.cursor)
+    if (options.projectId) params.set('projectId', options.projectId)
+
+    const response = await fetchWithRetry(`/api/recordings?${params.toString()}`, {}, { signal: options.signal })
 
     if (!response.ok) {
         const errorText = await response.text().catch(() => 'No error details')
-        throw new Error(`Failed to fetch sources: ${response.status} ${response.statusText}. Details: ${errorText}`)
+        throw new Error(`Failed to fetch recordings: ${response.status} ${response.statusText}. Details: ${errorText}`)
     }
 
     return await response.json()
 }
 
 /**
- * Fetches snapshot data from a specific source
+ * Fetches the list of sources (blob storage locations) for a session recording.
+ * Goes through our route handler, which holds the PostHog credentials.
  */
-async function fetchSnapshotFromSource(source: Source): Promise<any> {
-    const sourceParam = encodeURIComponent(source.source)
-
-    let url: string
+async function fetchSources(sessionId: string, options: SessionRequestOptions): Promise<SourcesResponse> {
+    const url = recordingUrl(sessionId, 'sources', new URLSearchParams(), options)
 
-    if (source.source === 'blob_v2' || source.start_blob_key !== undefined) {
-        const startKey = source.start_blob_key || source.blob_key
-        const endKey = source.end_blob_key || source.blob_key
+    const response = await fetchWithRetry(url, {}, { signal: options.signal })
 
-        if (!startKey || !endKey) {
-            throw new Error(`Missing blob keys for source ${source.source}`)
-        }
-
-        const startKeyParam = encodeURIComponent(startKey)
-        const endKeyParam = encodeURIComponent(endKey)
-        url = `${config.apiHost}/api/projects/${config.projectId}/session_recordings/${config.sessionId}/snapshots?source=${sourceParam}&start_blob_key=${startKeyParam}&end_blob_key=${endKeyParam}&blob_v2=true`
-    } else {
-        const blobKeyParam = encodeURIComponent(source.blob_key || '')
-        url = `${config.apiHost}/api/projects/${config.projectId}/session_recordings/${config.sessionId}/snapshots?source=${sourceParam}&blob_key=${blobKeyParam}`
+    if (response.status === 404) {
+        throw new SessionNotFoundError(sessionId)
     }
 
-    const response = await fetch(url, {
-        headers: {
-            'Authorization': `Bearer ${config.apiKey}`
-        }
-    })
-
     if (!response.ok) {
         const errorText = await response.text().catch(() => 'No error details')
-        throw new Error(`Failed to fetch snapshot from source ${source.source}: ${response.status} ${response.statusText}`)
+        throw new Error(`Failed to fetch sources: ${response.status} ${response.statusText}. Details: ${errorText}`)
     }
 
-    const text = await response.text()
+    return await response.json()
+}
 
-    try {
-        return JSON.parse(text)
-    } catch (e) {
-        // Try NDJSON format
-        const lines = text.split('\n').filter(line => line.trim().length > 0)
-        const parsed: any[] = []
+/**
+ * Fetches the raw snapshot blob of a specific source through our route handler.
+ * Parsing happens in the snapshot worker.
+ */
+async function fetchSnapshotFromSource(sessionId: string, source: Source, options: SessionRequestOptions): Promise<ArrayBuffer> {
+    const params = new URLSearchParams({ source: source.source })
+    if (source.blob_key !== undefined) params.set('blob_key', source.blob_key)
+    if (source.start_blob_key !== undefined) params.set('start_blob_key', source.start_blob_key)
+    if (source.end_blob_key !== undefined) params.set('end_blob_key', source.end_blob_key)
 
-        for (const line of lines) {
-            try {
-                parsed.push(JSON.parse(line))
-            } catch (lineError) {
-                console.warn('Failed to parse line:', line.substring(0, 100))
-            }
-        }
+    const url = recordingUrl(sessionId, 'snapshots', params, options)
 
-        if (parsed.length > 0) {
-            return parsed
-        }
+    // The body is read inside the attempt so the timeout and `signal` cover the download
+    const { response, buffer } = await fetchWithRetry(url, {}, { signal: options.signal }, async (response) => ({
+        response,
+        buffer: response.ok ? await response.arrayBuffer() : null,
+    }))
 
-        throw new Error(`Failed to parse response as JSON`)
+    if (!buffer) {
+        throw new Error(`Failed to fetch snapshot from source ${source.source}: ${response.status} ${response.statusText}`)
     }
+
+    return buffer
 }
 
 /**
- * Decompresses a compressed mutation field using pako
+ * Fetches the source list, keeping a copy in the cache so that cached
+ * sessions can still be opened when PostHog is unreachable
  */
-function decompressField(compressed: string): any[] {
+async function loadSources(sessionId: string, options: SessionRequestOptions, useCache: boolean): Promise<Source[]> {
     try {
-        const compressedArray = new Uint8Array(compressed.length)
-        for (let i = 0; i < compressed.length; i++) {
-            compressedArray[i] = compressed.charCodeAt(i) & 0xFF
+        const response = await fetchSources(sessionId, options)
+        const sources = response.sources || []
+        if (useCache && sources.length > 0) {
+            await putCachedSources(sessionId, sources, options.projectId)
         }
-        const decompressed = pako.inflate(compressedArray, { to: 'string' })
-        const parsed = JSON.parse(decompressed)
-        return Array.isArray(parsed) ? parsed : []
-    } catch (e) {
-        console.error('Failed to decompress field:', e)
-        return []
+        return sources
+    } catch (error) {
+        if (error instanceof SessionNotFoundError || isAbortError(error) || !useCache) throw error
+
+        const cachedSources = await getCachedSources(sessionId, options.projectId)
+        if (!cachedSources) throw error
+
+        console.warn('⚠️ Could not reach PostHog, using cached source list:', error)
+        return cachedSources
     }
 }
 
 /**
- * Checks if a string is compressed (gzip format)
+ * The processed events of one snapshot source
  */
-function isCompressed(str: string): boolean {
-    return str.length > 1 && str.charCodeAt(0) === 0x1F && str.charCodeAt(1) === 0x8B
+export interface SessionChunk {
+    /** Position of the source in the recording; chunks are delivered in this order */
+    index: number
+    /** Whether the chunk came from the local cache instead of the network */
+    cached: boolean
+    events: RecordingEvent[]
+    issues: EventIssue[]
+    css: CssDiagnostic[]
+    diagnostics: Diagnostic[]
+    /** Time span the chunk covers, or null if it held no events */
+    range: TimeRange | null
+    /** Values masked in `events` when loaded with a redactor */
+    redacted: number
+    /** Set when the source could not be loaded even after retrying; `events` is then empty */
+    error?: string
 }
 
 /**
- * Processes and decompresses mutation events (type 3)
+ * A source that could not be loaded. The rest of the session still plays.
  */
-function processMutationEvent(event: any): any {
-    if (event.type !== 3 || !event.data) {
-        return event
-    }
+export interface SourceFailure {
+    index: number
+    /** Time span the source would have covered, if PostHog told us */
+    range: TimeRange | null
+    message: string
+}
 
-    const processed = { ...event, data: { ...event.data } }
+export interface SessionLoadResult extends EventValidationResult {
+    failures: SourceFailure[]
+}
 
-    // Decompress removes, adds, texts, attributes if they're compressed strings
-    const fields = ['removes', 'adds', 'texts', 'attributes'] as const
-    
-    for (const field of fields) {
-        if (processed.data[field] && typeof processed.data[field] === 'string') {
-            if (isCompressed(processed.data[field])) {
-                processed.data[field] = decompressField(processed.data[field])
-            } else {
-                // Try parsing as JSON
-                try {
-                    processed.data[field] = JSON.parse(processed.data[field])
-                } catch {
-                    // Leave as-is if parsing fails
-                }
-            }
-        }
-        
-        // Ensure it's an array
-        if (!Array.isArray(processed.data[field])) {
-            processed.data[field] = []
-        }
+export interface SessionStreamOptions extends SessionRequestOptions {
+    /** Maximum number of snapshot blobs downloaded at once */
+    concurrency?: number
+    /** Read and write the IndexedDB snapshot cache (default true) */
+    cache?: boolean
+    /**
+     * Masks events in recording order before they are cached or handed out,
+     * so unmasked events never reach the cache or the caller
+     */
+    redactor?: Redactor
+    /** Called once the source list is known, with the span the whole recording covers */
+    onSources?: (sources: Source[], range: TimeRange | null) => void
+    /** Called for every source, in recording order, as soon as it and all earlier ones are loaded */
+    onChunk?: (chunk: SessionChunk) => void
+    /** Called as blobs download and are processed */
+    onProgress?: (progress: LoadProgress) => void
+}
+
+export interface LoadProgress {
+    /** Overall completion, 0-100 */
+    percent: number
+    loadedSources: number
+    totalSources: number
+}
+
+// Share of a source's progress bar spent downloading; the rest is processing
+const DOWNLOAD_SHARE = 0.3
+
+/**
+ * Cached result of a masked blob
+ */
+interface MaskedResult extends EventValidationResult {
+    redacted: number
+}
+
+function parseTimestamp(value: string | undefined): number | null {
+    if (!value) return null
+    const parsed = Date.parse(value)
+    return Number.isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Time span of one source, from the timestamps PostHog attaches to it
+ */
+function sourceRange(source: Source): TimeRange | null {
+    const start = parseTimestamp(source.start_timestamp)
+    const end = parseTimestamp(source.end_timestamp)
+    return start !== null && end !== null ? { start, end } : null
+}
+
+/**
+ * Time span covered by all sources, or null if PostHog did not send timestamps
+ */
+function sourcesRange(sources: Source[]): TimeRange | null {
+    const ranges = sources.map(sourceRange)
+    if (ranges.some((range) => range === null)) return null
+    return {
+        start: Math.min(...ranges.map((range) => range!.start)),
+        end: Math.max(...ranges.map((range) => range!.end)),
     }
+}
 
-    return processed
+function eventsRange(events: RecordingEvent[]): TimeRange | null {
+    if (events.length === 0) return null
+    let start = Infinity
+    let end = -Infinity
+    for (const event of events) {
+        if (event.timestamp < start) start = event.timestamp
+        if (event.timestamp > end) end = event.timestamp
+    }
+    return { start, end }
 }
 
 /**
- * Fetches all session recording data and processes it for rrweb
+ * Fetches all session recording data and processes it for rrweb. Up to
+ * `concurrency` sources are downloaded at a time; chunks are handed to
+ * `onChunk` in recording order so playback can start with the first blob
+ * while the rest are still downloading. Sources that still fail after
+ * retrying are reported in `failures` instead of aborting the whole session.
  */
-export async function fetchSessionData(): Promise<any[]> {
-    console.log('🚀 Fetching session data...')
-    
-    const sourcesResponse = await fetchSources()
+export async function fetchSessionData(sessionId: string, options: SessionStreamOptions = {}): Promise<SessionLoadResult> {
+    const useCache = options.cache !== false
+    const { redactor } = options
+    // Masked copies are cached apart from raw ones, and per rule set
+    const cacheVariant = redactor ? `masked-${redactor.fingerprint}` : undefined
+    const sources = await loadSources(sessionId, options, useCache)
     
-    if (!sourcesResponse.sources || sourcesResponse.sources.length === 0) {
+    if (sources.length === 0) {
         throw new Error('No sources found for this session recording')
     }
 
-    console.log(`Found ${sourcesResponse.sources.length} source(s)`)
-
-    const snapshotData: any[] = []
+    options.onSources?.(sources, sourcesRange(sources))
+
+    const concurrency = Math.max(1, options.concurrency ?? config.snapshotConcurrency)
+    const chunks: (SessionChunk | undefined)[] = new Array(sources.length)
+    // Completion of each source, 0-1
+    const sourceProgress: number[] = new Array(sources.length).fill(0)
+    let nextToEmit = 0
+    let nextToFetch = 0
+    // Downloaded results waiting to be masked in order before they are cached
+    const pendingCache = new Map<number, { key: string, result: EventValidationResult, size: number }>()
+    const cacheWrites: Promise<void>[] = []
+
+    const reportProgress = (index: number, fraction: number) => {
+        sourceProgress[index] = fraction
+        if (!options.onProgress) return
+        const total = sourceProgress.reduce((sum, value) => sum + value, 0)
+        options.onProgress({
+            percent: Math.round((total / sources.length) * 100),
+            loadedSources: sourceProgress.filter((value) => value >= 1).length,
+            totalSources: sources.length,
+        })
+    }
 
-    // Fetch data from each source
-    for (const source of sourcesResponse.sources) {
-        const data = await fetchSnapshotFromSource(source)
+    // The redactor follows the DOM across blobs, so masking happens here, in recording order.
+    // Cached chunks are already masked but still pass through it to keep its state.
+    const maskChunk = (chunk: SessionChunk) => {
+        if (!redactor) return
+        const before = redactor.redactedCount
+        chunk.events = redactor.redactAll(chunk.events)
+        if (chunk.cached) return
+
+        chunk.redacted = redactor.redactedCount - before
+        const pending = pendingCache.get(chunk.index)
+        if (pending) {
+            pendingCache.delete(chunk.index)
+            const masked: MaskedResult = { ...pending.result, events: chunk.events, redacted: chunk.redacted }
+            // Masking keeps text lengths, so the unmasked size is a close estimate
+            cacheWrites.push(putCachedBlob(pending.key, masked, pending.size))
+        }
+    }
 
-        if (Array.isArray(data)) {
-            snapshotData.push(...data)
-        } else if (data && typeof data === 'object') {
-            if (Array.isArray(data.events)) {
-                snapshotData.push(...data.events)
-            } else if (Array.isArray(data.data)) {
-                snapshotData.push(...data.data)
-            } else {
-                snapshotData.push(data)
-            }
-        } else {
-            snapshotData.push(data)
+    const emitReadyChunks = () => {
+        while (nextToEmit < chunks.length && chunks[nextToEmit]) {
+            maskChunk(chunks[nextToEmit]!)
+            options.onChunk?.(chunks[nextToEmit]!)
+            nextToEmit++
         }
     }
 
-    console.log(`Total events fetched: ${snapshotData.length}`)
-    
-    // CRITICAL: Events come as tuples [sessionId, eventObject]
-    // Extract the actual event objects from index [1] - optimized batch processing
-    const extractedEvents: any[] = []
-    for (let i = 0; i < snapshotData.length; i++) {
-        const item = snapshotData[i]
-        if (!item) continue
-        
-        if (Array.isArray(item) && item.length >= 2) {
-            // It's a tuple [sessionId, eventObject]
-            const eventObject = item[1]
-            if (eventObject && typeof eventObject === 'object' && 'type' in eventObject) {
-                extractedEvents.push(eventObject)
+    const loadChunk = async (index: number): Promise<SessionChunk> => {
+        const cacheKey = useCache ? blobCacheKey(sessionId, sources[index], options.projectId, cacheVariant) : null
+
+        let result = cacheKey ? await getCachedBlob<EventValidationResult & Partial<MaskedResult>>(cacheKey) : null
+        const cached = result !== null
+
+        if (!result) {
+            const buffer = await fetchSnapshotFromSource(sessionId, sources[index], options)
+            reportProgress(index, DOWNLOAD_SHARE)
+
+            const processed = await processInWorker(buffer, (percent) => {
+                reportProgress(index, DOWNLOAD_SHARE + (1 - DOWNLOAD_SHARE) * (percent / 100))
+            })
+            result = processed.result
+            if (cacheKey && redactor) {
+                pendingCache.set(index, { key: cacheKey, result, size: processed.size })
+            } else if (cacheKey) {
+                // Inflated events are often many times the size of the compressed download
+                await putCachedBlob(cacheKey, result, processed.size)
             }
-        } else if (item && typeof item === 'object' && 'type' in item) {
-            // Already an event object
-            extractedEvents.push(item)
         }
-        
-        // Log progress for large datasets
-        if (i > 0 && i % 100 === 0) {
-            console.log(`Extracted ${extractedEvents.length} events from ${i + 1} items...`)
+        reportProgress(index, 1)
+
+        return {
+            index,
+            cached,
+            events: result.events,
+            issues: result.issues.map((issue) => ({ ...issue, source: index })),
+            css: result.css,
+            diagnostics: result.diagnostics.map((diagnostic) => ({ ...diagnostic, source: index })),
+            range: sourceRange(sources[index]) ?? eventsRange(result.events),
+            redacted: result.redacted ?? 0,
         }
     }
-    
-    console.log(`✅ Extracted ${extractedEvents.length} event objects from ${snapshotData.length} items`)
-    
-    // Debug: Check event structure
-    if (extractedEvents.length > 0) {
-        const firstEvent = extractedEvents[0]
-        console.log('=== DEBUG: First event structure ===')
-        console.log('First event type:', firstEvent?.type)
-        console.log('First event hasData:', !!firstEvent?.data)
-        
-        // Check for FullSnapshot
-        const fullSnapshot = extractedEvents.find((e: any) => {
-            if (!e) return false
-            const type = e.type
-            return type === 2 || type === '2' || type === 2.0 || String(type) === '2'
-        })
-        
-        if (fullSnapshot) {
-            console.log('✅✅✅ Found FullSnapshot in extracted events')
-            console.log('FullSnapshot data type:', typeof fullSnapshot.data)
-            if (typeof fullSnapshot.data === 'string') {
-                console.log('⚠️ FullSnapshot data is a string - might need decompression')
+
+    const worker = async () => {
+        while (nextToFetch < sources.length) {
+            const index = nextToFetch++
+
+            try {
+                chunks[index] = await loadChunk(index)
+            } catch (error) {
+                if (isAbortError(error) || options.signal?.aborted) throw error
+
+                reportProgress(index, 1)
+                const message = error instanceof Error ? error.message : 'Failed to load snapshot'
+                chunks[index] = {
+                    index,
+                    cached: false,
+                    events: [],
+                    issues: [],
+                    css: [],
+                    diagnostics: [{ level: 'error', message: `Could not load snapshot source ${index}: ${message}`, source: index }],
+                    range: sourceRange(sources[index]),
+                    redacted: 0,
+                    error: message,
+                }
             }
-        } else {
-            console.error('❌❌❌ No FullSnapshot found in extracted events')
-            const allTypes = extractedEvents.map((e: any) => e?.type).filter(t => t !== undefined)
-            console.error('All event types found:', [...new Set(allTypes)])
+            emitReadyChunks()
         }
     }
 
-    // Process events: remove PostHog-specific properties and decompress mutations
-    // Use for loop instead of map for better performance and progress tracking
-    const processedEvents: any[] = []
-    const startTime = Date.now()
-    
-    for (let i = 0; i < extractedEvents.length; i++) {
-        const event = extractedEvents[i]
-        
-        if (!event || typeof event !== 'object') {
-            processedEvents.push(event)
-            continue
+    await Promise.all(Array.from({ length: Math.min(concurrency, sources.length) }, worker))
+    await Promise.all(cacheWrites)
+
+    const events: RecordingEvent[] = []
+    const issues: EventIssue[] = []
+    const css: CssDiagnostic[] = []
+    const diagnostics: Diagnostic[] = []
+    const failures: SourceFailure[] = []
+    for (const chunk of chunks) {
+        if (!chunk) continue
+        events.push(...chunk.events)
+        issues.push(...chunk.issues)
+        css.push(...chunk.css)
+        diagnostics.push(...chunk.diagnostics)
+        if (chunk.error) {
+            failures.push({ index: chunk.index, range: chunk.range, message: chunk.error })
         }
+    }
 
-        // Remove PostHog-specific properties (shallow copy for performance)
-        const cleaned: any = { ...event }
-        delete cleaned.cv
-        delete cleaned.delay
+    if (failures.length === sources.length) {
+        throw new Error(`Failed to load any part of the recording: ${failures[0].message}`)
+    }
 
-        // Process mutation events (type 3) - decompress compressed fields
-        if (cleaned.type === 3 || cleaned.type === '3') {
-            processedEvents.push(processMutationEvent(cleaned))
-            continue
-        }
-        
-        // Process FullSnapshot (type 2) - decompress if data is compressed
-        if ((cleaned.type === 2 || cleaned.type === '2') && cleaned.data) {
-            if (typeof cleaned.data === 'string' && isCompressed(cleaned.data)) {
-                console.log('🔧 Decompressing FullSnapshot data...')
-                try {
-                    // FullSnapshot data decompression - returns an object, not array
-                    const compressedArray = new Uint8Array(cleaned.data.length)
-                    for (let j = 0; j < cleaned.data.length; j++) {
-                        compressedArray[j] = cleaned.data.charCodeAt(j) & 0xFF
-                    }
-                    const decompressed = pako.inflate(compressedArray, { to: 'string' })
-                    const parsed = JSON.parse(decompressed)
-                    if (parsed && typeof parsed === 'object') {
-                        cleaned.data = parsed
-                        console.log('✅ FullSnapshot data decompressed')
-                    }
-                } catch (e) {
-                    console.error('❌ Failed to decompress FullSnapshot:', e)
-                }
-            }
-        }
+    diagnostics.push(...recordingDiagnostics(events))
 
-        processedEvents.push(cleaned)
-        
-        // Log progress for large datasets
-        if (i > 0 && i % 100 === 0) {
-            const elapsed = Date.now() - startTime
-            console.log(`Processed ${i + 1}/${extractedEvents.length} events (${elapsed}ms)...`)
-        }
+    return { events, issues, css, diagnostics, failures }
+}
+
+/**
+ * Downloads and processes a session into the snapshot cache without keeping
+ * its events, so opening it later is instant. One blob at a time, to leave
+ * bandwidth for whatever is playing. Pass `masked` for viewers who will only
+ * see it masked, so only the masked copy is cached.
+ */
+export async function preloadSession(sessionId: string, options: SessionRequestOptions & { masked?: boolean } = {}): Promise<void> {
+    const { masked, ...rest } = options
+    await (masked ? fetchMaskedSession : fetchSessionData)(sessionId, { ...rest, concurrency: 1 })
+}
+
+async function annotationRequest<T>(url: string, init: RequestInit, action: string): Promise<T> {
+    const response = await fetch(url, {
+        ...init,
+        headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+    })
+
+    if (!response.ok) {
+        const details = await response.json().then((body) => body.error).catch(() => response.statusText)
+        throw new Error(`Failed to ${action}: ${details}`)
     }
-    
-    const totalTime = Date.now() - startTime
-    console.log(`✅ Processed ${processedEvents.length} events in ${totalTime}ms`)
 
-    console.log(`✅ Processed ${processedEvents.length} events`)
-    
-    // Final check for FullSnapshot
-    const finalFullSnapshot = processedEvents.find((e: any) => e?.type === 2 || e?.type === '2')
-    if (finalFullSnapshot) {
-        console.log('✅ FullSnapshot found in processed events')
-        console.log('FullSnapshot data keys:', Object.keys(finalFullSnapshot.data || {}))
-    } else {
-        console.error('❌ No FullSnapshot in processed events!')
-        console.log('Processed event types:', [...new Set(processedEvents.map((e: any) => e?.type))])
+    return response.status === 204 ? (undefined as T) : await response.json()
+}
+
+/**
+ * Fetches the annotations of a session, ordered by time
+ */
+export async function fetchAnnotations(sessionId: string, options: SessionRequestOptions = {}): Promise<Annotation[]> {
+    const url = recordingUrl(sessionId, 'annotations', new URLSearchParams(), options)
+    const response = await fetchWithRetry(url, {}, { signal: options.signal })
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch annotations: ${response.status} ${response.statusText}`)
     }
-    
-    return processedEvents
+
+    return await response.json()
+}
+
+// Writes are not retried: a retried POST could create the note twice
+
+export function createAnnotation(sessionId: string, input: AnnotationInput, options: SessionRequestOptions = {}): Promise<Annotation> {
+    const url = recordingUrl(sessionId, 'annotations', new URLSearchParams(), options)
+    return annotationRequest(url, { method: 'POST', body: JSON.stringify(input) }, 'save note')
 }
 
+export function updateAnnotation(
+    sessionId: string,
+    annotationId: string,
+    patch: AnnotationPatch,
+    options: SessionRequestOptions = {}
+): Promise<Annotation> {
+    const url = recordingUrl(sessionId, `annotations/${encodeURIComponent(annotationId)}`, new URLSearchParams(), options)
+    return annotationRequest(url, { method: 'PATCH', body: JSON.stringify(patch) }, 'update note')
+}
+
+export function deleteAnnotation(sessionId: string, annotationId: string, options: SessionRequestOptions = {}): Promise<void> {
+    const url = recordingUrl(sessionId, `annotations/${encodeURIComponent(annotationId)}`, new URLSearchParams(), options)
+    return annotationRequest(url, { method: 'DELETE' }, 'delete note')
+}
+
+/**
+ * Fetches the privacy rules configured for a project
+ */
+export async function fetchPrivacyRules(options: SessionRequestOptions = {}): Promise<PrivacyRule[]> {
+    const query = options.projectId ? `?projectId=${encodeURIComponent(options.projectId)}` : ''
+    const response = await fetchWithRetry(`/api/privacy${query}`, {}, { signal: options.signal })
 
+    if (!response.ok) {
+        throw new Error(`Failed to fetch privacy rules: ${response.status} ${response.statusText}`)
+    }
+
+    return parsePrivacyRules(await response.json())
+}
+
+/**
+ * Loads a whole session masked with the project's privacy rules, or with the
+ * built-in rules if they cannot be loaded
+ */
+export async function fetchMaskedSession(sessionId: string, options: SessionStreamOptions = {}): Promise<SessionLoadResult> {
+    const rules = await fetchPrivacyRules(options).catch((err) => {
+        if (options.signal?.aborted) throw err
+        console.warn('Failed to load privacy rules, using defaults:', err)
+        return DEFAULT_PRIVACY_RULES
+    })
+    return await fetchSessionData(sessionId, { ...options, redactor: new Redactor(rules) })
+}
@@ -0,0 +1,226 @@
+import { config } from './config'
+import type { EventValidationResult } from './events'
+import type { Source } from './types'
+
+/**
+ * IndexedDB cache for processed snapshot blobs.
+ *
+ * Blobs of finished recordings never change, so their processed events are
+ * kept keyed by project, session and blob key. Entry sizes live in a separate
+ * store so LRU eviction never has to load the events themselves. Every
+ * function degrades to a no-op when IndexedDB is unavailable.
+ */
+
+const DB_NAME = 'rrweb-player-cache'
+const DB_VERSION = 1
+const BLOBS_STORE = 'blobs'
+const META_STORE = 'meta'
+const SOURCES_STORE = 'sources'
+
+// Bumped whenever processing changes its output, so stale results are never read
+const PROCESSING_VERSION = 4
+
+// Sources that are still being written to and must not be cached
+const UNCACHEABLE_SOURCES = new Set(['realtime'])
+
+interface BlobMeta {
+    key: string
+    /** Size in bytes of the stored result as UTF-8 JSON, as measured by the snapshot worker */
+    size: number
+    lastAccess: number
+}
+
+interface BlobEntry<T extends EventValidationResult = EventValidationResult> {
+    key: string
+    result: T
+}
+
+interface SourcesEntry {
+    key: string
+    sources: Source[]
+}
+
+export interface CacheStats {
+    entries: number
+    bytes: number
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+    })
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (dbPromise) return dbPromise
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = () => {
+            const db = request.result
+            db.createObjectStore(BLOBS_STORE, { keyPath: 'key' })
+            db.createObjectStore(META_STORE, { keyPath: 'key' }).createIndex('lastAccess', 'lastAccess')
+            db.createObjectStore(SOURCES_STORE, { keyPath: 'key' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+            console.warn('Snapshot cache unavailable:', request.error)
+            resolve(null)
+        }
+    })
+
+    return dbPromise
+}
+
+function sessionCacheKey(sessionId: string, projectId: string | undefined): string {
+    return `${projectId || 'default'}:${sessionId}`
+}
+
+/**
+ * Cache key of a snapshot blob, or null if the source may still change.
+ * `variant` keeps differently processed copies of the same blob apart (masked events).
+ */
+export function blobCacheKey(sessionId: string, source: Source, projectId?: string, variant?: string): string | null {
+    if (UNCACHEABLE_SOURCES.has(source.source)) return null
+
+    const blobKey = source.start_blob_key !== undefined || source.source === 'blob_v2'
+        ? `${source.start_blob_key ?? source.blob_key}-${source.end_blob_key ?? source.blob_key}`
+        : source.blob_key
+    if (!blobKey) return null
+
+    const key = `${sessionCacheKey(sessionId, projectId)}:v${PROCESSING_VERSION}:${source.source}:${blobKey}`
+    return variant ? `${key}:${variant}` : key
+}
+
+/**
+ * Returns the processed events of a cached blob and marks it as recently used
+ */
+export async function getCachedBlob<T extends EventValidationResult = EventValidationResult>(key: string): Promise<T | null> {
+    try {
+        const db = await openDatabase()
+        if (!db) return null
+
+        const tx = db.transaction([BLOBS_STORE, META_STORE], 'readwrite')
+        const entry = await promisify<BlobEntry<T> | undefined>(tx.objectStore(BLOBS_STORE).get(key))
+        if (!entry) return null
+
+        const meta = await promisify<BlobMeta | undefined>(tx.objectStore(META_STORE).get(key))
+        if (meta) {
+            tx.objectStore(META_STORE).put({ ...meta, lastAccess: Date.now() })
+        }
+        await transactionDone(tx)
+        return entry.result
+    } catch (e) {
+        console.warn('Failed to read snapshot cache:', e)
+        return null
+    }
+}
+
+/**
+ * Stores the processed events of a blob, then evicts the least recently used
+ * blobs until the cache fits in its size limit
+ */
+export async function putCachedBlob<T extends EventValidationResult>(key: string, result: T, size: number): Promise<void> {
+    try {
+        const db = await openDatabase()
+        if (!db) return
+
+        const tx = db.transaction([BLOBS_STORE, META_STORE], 'readwrite')
+        tx.objectStore(BLOBS_STORE).put({ key, result } satisfies BlobEntry<T>)
+        tx.objectStore(META_STORE).put({ key, size, lastAccess: Date.now() } satisfies BlobMeta)
+        await transactionDone(tx)
+
+        await evict(db, config.cacheMaxBytes)
+    } catch (e) {
+        console.warn('Failed to write snapshot cache:', e)
+    }
+}
+
+async function evict(db: IDBDatabase, maxBytes: number): Promise<void> {
+    const tx = db.transaction([BLOBS_STORE, META_STORE], 'readwrite')
+    const metas = await promisify<BlobMeta[]>(tx.objectStore(META_STORE).index('lastAccess').getAll())
+
+    let total = metas.reduce((sum, meta) => sum + meta.size, 0)
+    // Oldest access first
+    for (const meta of metas) {
+        if (total <= maxBytes) break
+        tx.objectStore(BLOBS_STORE).delete(meta.key)
+        tx.objectStore(META_STORE).delete(meta.key)
+        total -= meta.size
+    }
+
+    await transactionDone(tx)
+}
+
+/**
+ * Returns the source list cached for a session, used when PostHog is unreachable
+ */
+export async function getCachedSources(sessionId: string, projectId?: string): Promise<Source[] | null> {
+    try {
+        const db = await openDatabase()
+        if (!db) return null
+
+        const tx = db.transaction(SOURCES_STORE, 'readonly')
+        const entry = await promisify<SourcesEntry | undefined>(
+            tx.objectStore(SOURCES_STORE).get(sessionCacheKey(sessionId, projectId))
+        )
+        return entry?.sources ?? null
+    } catch (e) {
+        console.warn('Failed to read snapshot cache:', e)
+        return null
+    }
+}
+
+export async function putCachedSources(sessionId: string, sources: Source[], projectId?: string): Promise<void> {
+    try {
+        const db = await openDatabase()
+        if (!db) return
+
+        const tx = db.transaction(SOURCES_STORE, 'readwrite')
+        tx.objectStore(SOURCES_STORE).put({ key: sessionCacheKey(sessionId, projectId), sources } satisfies SourcesEntry)
+        await transactionDone(tx)
+    } catch (e) {
+        console.warn('Failed to write snapshot cache:', e)
+    }
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+    try {
+        const db = await openDatabase()
+        if (!db) return { entries: 0, bytes: 0 }
+
+        const tx = db.transaction(META_STORE, 'readonly')
+        const metas = await promisify<BlobMeta[]>(tx.objectStore(META_STORE).getAll())
+        return {
+            entries: metas.length,
+            bytes: metas.reduce((sum, meta) => sum + meta.size, 0),
+        }
+    } catch (e) {
+        console.warn('Failed to read snapshot cache:', e)
+        return { entries: 0, bytes: 0 }
+    }
+}
+
+export async function clearCache(): Promise<void> {
+    const db = await openDatabase()
+    if (!db) return
+
+    const tx = db.transaction([BLOBS_STORE, META_STORE, SOURCES_STORE], 'readwrite')
+    tx.objectStore(BLOBS_STORE).clear()
+    tx.objectStore(META_STORE).clear()
+    tx.objectStore(SOURCES_STORE).clear()
+    await transactionDone(tx)
+}
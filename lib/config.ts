@@ -1,18 +1,21 @@
 /**
- * Configuration file for PostHog API credentials and session ID
- * 
- * Fill in your credentials below:
- * - apiKey: Your PostHog personal API key
- * - projectId: Your PostHog project ID
- * - sessionId: The session recording ID you want to replay
- * - apiHost: Your PostHog instance URL (default: https://us.posthog.com)
+ * Client-side configuration
+ *
+ * Only values that are safe to ship to the browser belong here. PostHog
+ * credentials live in server environment variables (see lib/server/config.ts).
+ * - sessionId: Session ID prefilled on the home page (optional)
+ * - snapshotConcurrency: How many snapshot blobs are downloaded in parallel
+ * - cacheMaxBytes: Size limit of the IndexedDB snapshot cache
+ * - requestTimeoutMs / requestRetries: Per-attempt timeout and retry count for API requests
+ * - assetProxyUrl: Proxy for recorded CSS assets the browser cannot load directly;
+ *   `{url}` is replaced with the encoded asset URL (optional)
  */
 
 export const config = {
-    apiKey: 'phx_OIFvwDLblvpGG2bv9pVPCOWI8PSchRcceaSObcyFMOaTMB9',
-    projectId: '197154',
-    sessionId: '019c00f8-e2a7-77df-b744-3bde2a601ce9',
-    apiHost: 'https://us.posthog.com', // Change if using a different PostHog instance
+    sessionId: process.env.NEXT_PUBLIC_POSTHOG_SESSION_ID || '',
+    snapshotConcurrency: Number(process.env.NEXT_PUBLIC_SNAPSHOT_CONCURRENCY) || 4,
+    cacheMaxBytes: (Number(process.env.NEXT_PUBLIC_CACHE_MAX_MB) || 250) * 1024 * 1024,
+    requestTimeoutMs: 30000,
+    requestRetries: 3,
+    assetProxyUrl: process.env.NEXT_PUBLIC_ASSET_PROXY_URL || '',
 }
-
-
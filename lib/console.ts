@@ -0,0 +1,73 @@
+import { isPlugin, type RecordingEvent } from './events'
+
+/**
+ * Console messages captured by rrweb's console record plugin
+ */
+
+export const CONSOLE_PLUGIN = 'rrweb/console@1'
+
+export type ConsoleLevel =
+    | 'assert' | 'clear' | 'count' | 'countReset' | 'debug' | 'dir' | 'dirxml' | 'error' | 'group'
+    | 'groupCollapsed' | 'groupEnd' | 'info' | 'log' | 'table' | 'time' | 'timeEnd' | 'timeLog'
+    | 'trace' | 'warn'
+
+/**
+ * Payload of a console plugin event. `payload` holds the JSON-stringified
+ * arguments of the call, `trace` its stack frames.
+ */
+export interface ConsolePayload {
+    level: ConsoleLevel
+    trace: string[]
+    payload: string[]
+}
+
+export function isConsoleEvent(event: RecordingEvent): event is RecordingEvent & { data: { plugin: string, payload: ConsolePayload } } {
+    if (!isPlugin(event) || event.data.plugin !== CONSOLE_PLUGIN) return false
+    const payload = event.data.payload as Partial<ConsolePayload> | null
+    return !!payload && typeof payload.level === 'string' && Array.isArray(payload.payload)
+}
+
+/**
+ * Joins the stringified arguments of a console call into one readable line
+ */
+export function formatConsoleMessage(payload: ConsolePayload): string {
+    return payload.payload
+        .map((arg) => {
+            try {
+                const value = JSON.parse(arg)
+                return typeof value === 'string' ? value : arg
+            } catch {
+                return arg
+            }
+        })
+        .join(' ')
+}
+
+export interface ConsoleEntry {
+    /** Index of the event in the recording; used as a React key */
+    id: number
+    /** Epoch ms */
+    timestamp: number
+    level: ConsoleLevel
+    message: string
+    trace: string[]
+}
+
+/**
+ * Collects the console messages of a recording, in chronological order
+ */
+export function extractConsoleEntries(events: RecordingEvent[]): ConsoleEntry[] {
+    const entries: ConsoleEntry[] = []
+    events.forEach((event, index) => {
+        if (!isConsoleEvent(event)) return
+        const { payload } = event.data
+        entries.push({
+            id: index,
+            timestamp: event.timestamp,
+            level: payload.level,
+            message: formatConsoleMessage(payload),
+            trace: Array.isArray(payload.trace) ? payload.trace : [],
+        })
+    })
+    return entries
+}
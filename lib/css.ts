@@ -0,0 +1,421 @@
+/**
+ * Repair of recorded CSS before it reaches the Replayer.
+ *
+ * Stylesheets captured by rrweb (`_cssText`, `<style>` text) and inline
+ * `style` attributes can be truncated or malformed, which garbles or breaks
+ * playback. The sanitizer parses them leniently and fixes or drops only the
+ * broken rules and declarations; CSS without problems is returned untouched.
+ * Asset URLs the player cannot load (relative, plain http or private hosts)
+ * are resolved against the page and sent through the asset proxy if one is
+ * configured. DOM-free so it can run inside the snapshot worker.
+ */
+
+export type CssFixKind = 'repaired' | 'dropped' | 'rewritten'
+
+export interface CssFix {
+    kind: CssFixKind
+    reason: string
+    /** Start of the rule, declaration or URL that was changed */
+    excerpt: string
+}
+
+/**
+ * A fix made to the CSS of one recorded node
+ */
+export interface CssDiagnostic extends CssFix {
+    timestamp: number
+    nodeId: number
+    /** `stylesheet` for `_cssText` and `<style>` contents, `style` for inline styles */
+    target: 'stylesheet' | 'style'
+}
+
+export interface CssSanitizeOptions {
+    /** URL of the recorded page, for resolving relative asset URLs */
+    baseUrl?: string
+    /** Asset proxy; `{url}` is replaced with the encoded asset URL, otherwise it is appended */
+    proxyUrl?: string
+}
+
+export interface CssSanitizeResult {
+    css: string
+    fixes: CssFix[]
+}
+
+const EXCERPT_LENGTH = 80
+
+// At-rules whose block holds rules, and those whose block holds declarations
+const NESTING_AT_RULES = new Set(['media', 'supports', 'document', '-moz-document', 'layer', 'container', 'scope', 'starting-style'])
+const DECLARATION_AT_RULES = new Set(['font-face', 'page', 'counter-style', 'property', 'viewport', 'font-palette-values'])
+const STATEMENT_AT_RULES = new Set(['import', 'charset', 'namespace', 'layer'])
+const KEYFRAMES = /^(-[a-z]+-)?keyframes$/
+
+const PROPERTY_NAME = /^(--[\w-]*|-?[a-zA-Z_][\w-]*)$/
+const PRIVATE_HOST = /^(localhost|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|\[::1\])$|\.(local|internal|localhost)$/
+const URL_FUNCTION = /url\(\s*(?:'([^']*)'|"([^"]*)"|([^)'"\s]*))\s*\)/gi
+
+function excerpt(text: string): string {
+    const trimmed = text.trim().replace(/\s+/g, ' ')
+    return trimmed.length > EXCERPT_LENGTH ? `${trimmed.slice(0, EXCERPT_LENGTH)}…` : trimmed
+}
+
+/**
+ * Whether a browser showing the player could not load the asset itself
+ */
+function isUnreachable(url: URL): boolean {
+    return url.protocol === 'http:' || PRIVATE_HOST.test(url.hostname)
+}
+
+function proxied(url: string, proxyUrl: string): string {
+    const encoded = encodeURIComponent(url)
+    return proxyUrl.includes('{url}') ? proxyUrl.replace('{url}', encoded) : `${proxyUrl}${encoded}`
+}
+
+/**
+ * Lenient CSS parser that re-serializes what it reads, recording every
+ * change it has to make
+ */
+class CssSanitizer {
+    fixes: CssFix[] = []
+    private css = ''
+    private i = 0
+
+    constructor(private options: CssSanitizeOptions) {}
+
+    stylesheet(css: string): string {
+        this.css = this.stripComments(css)
+        this.i = 0
+        return this.rules(false).rules.join('\n')
+    }
+
+    declarations(text: string): string[] {
+        const result: string[] = []
+
+        for (const part of this.splitDeclarations(this.stripComments(text))) {
+            const declaration = part.trim()
+            if (!declaration) continue
+
+            const colon = declaration.indexOf(':')
+            if (colon === -1) {
+                this.fix('dropped', 'Declaration without a value', declaration)
+                continue
+            }
+            const property = declaration.slice(0, colon).trim()
+            let value = declaration.slice(colon + 1).trim()
+            if (!PROPERTY_NAME.test(property)) {
+                this.fix('dropped', 'Invalid property name', declaration)
+                continue
+            }
+            if (!value && !property.startsWith('--')) {
+                this.fix('dropped', 'Declaration without a value', declaration)
+                continue
+            }
+
+            const { depth, badString } = this.balance(value)
+            if (badString) {
+                this.fix('dropped', 'Unterminated string', declaration)
+                continue
+            }
+            if (depth < 0) {
+                this.fix('dropped', 'Unmatched closing parenthesis', declaration)
+                continue
+            }
+            if (depth > 0) {
+                this.fix('repaired', 'Unclosed parenthesis', declaration)
+                value += ')'.repeat(depth)
+            }
+
+            result.push(`${property}: ${this.rewriteUrls(value)}`)
+        }
+
+        return result
+    }
+
+    private fix(kind: CssFixKind, reason: string, text: string) {
+        this.fixes.push({ kind, reason, excerpt: excerpt(text) })
+    }
+
+    /**
+     * Index just past the string starting at `start`, or -1 if it runs into
+     * a newline or the end of the text
+     */
+    private stringEnd(text: string, start: number): number {
+        const quote = text[start]
+        for (let j = start + 1; j < text.length; j++) {
+            const char = text[j]
+            if (char === '\\') j++
+            else if (char === quote) return j + 1
+            else if (char === '\n') return -1
+        }
+        return -1
+    }
+
+    private stripComments(text: string): string {
+        let result = ''
+        let j = 0
+        while (j < text.length) {
+            const char = text[j]
+            if (char === '"' || char === "'") {
+                const end = this.stringEnd(text, j)
+                const stop = end === -1 ? text.indexOf('\n', j) : end
+                const next = stop === -1 ? text.length : stop
+                result += text.slice(j, next)
+                j = next
+            } else if (char === '/' && text[j + 1] === '*') {
+                const end = text.indexOf('*/', j + 2)
+                if (end === -1) {
+                    this.fix('repaired', 'Unterminated comment', text.slice(j))
+                    break
+                }
+                j = end + 2
+            } else {
+                result += char
+                j++
+            }
+        }
+        return result
+    }
+
+    /**
+     * Parenthesis depth at the end of `text` (negative once a `)` has no
+     * match), and whether it holds an unterminated string
+     */
+    private balance(text: string): { depth: number, badString: boolean } {
+        let depth = 0
+        for (let j = 0; j < text.length; j++) {
+            const char = text[j]
+            if (char === '"' || char === "'") {
+                const end = this.stringEnd(text, j)
+                if (end === -1) return { depth, badString: true }
+                j = end - 1
+            } else if (char === '(' || char === '[') {
+                depth++
+            } else if (char === ')' || char === ']') {
+                if (--depth < 0) return { depth, badString: false }
+            }
+        }
+        return { depth, badString: false }
+    }
+
+    /**
+     * Splits a declaration block on `;`, ignoring those inside strings and
+     * parentheses (data URIs)
+     */
+    private splitDeclarations(text: string): string[] {
+        const parts: string[] = []
+        let depth = 0
+        let start = 0
+        for (let j = 0; j < text.length; j++) {
+            const char = text[j]
+            if (char === '"' || char === "'") {
+                const end = this.stringEnd(text, j)
+                if (end !== -1) j = end - 1
+            } else if (char === '(') {
+                depth++
+            } else if (char === ')') {
+                depth = Math.max(0, depth - 1)
+            } else if (char === ';' && depth === 0) {
+                parts.push(text.slice(start, j))
+                start = j + 1
+            }
+        }
+        parts.push(text.slice(start))
+        return parts
+    }
+
+    /**
+     * Reads a selector or at-rule prelude up to `{`, `;` or `}`. Consumes a
+     * `{` or `;` stop, but leaves `}` for the enclosing block.
+     */
+    private prelude(): { text: string, stop: '{' | ';' | '}' | null } {
+        const { css } = this
+        const start = this.i
+        let depth = 0
+        for (let j = start; j < css.length; j++) {
+            const char = css[j]
+            if (char === '"' || char === "'") {
+                const end = this.stringEnd(css, j)
+                if (end !== -1) j = end - 1
+            } else if (char === '(') {
+                depth++
+            } else if (char === ')') {
+                depth = Math.max(0, depth - 1)
+            } else if (char === '{' || (char === ';' && depth === 0)) {
+                this.i = j + 1
+                return { text: css.slice(start, j), stop: char }
+            } else if (char === '}') {
+                this.i = j
+                return { text: css.slice(start, j), stop: '}' }
+            }
+        }
+        this.i = css.length
+        return { text: css.slice(start), stop: null }
+    }
+
+    /**
+     * Reads the contents of a block whose `{` was just consumed
+     */
+    private block(): { content: string, closed: boolean } {
+        const { css } = this
+        const start = this.i
+        let depth = 1
+        for (let j = start; j < css.length; j++) {
+            const char = css[j]
+            if (char === '"' || char === "'") {
+                const end = this.stringEnd(css, j)
+                if (end !== -1) j = end - 1
+            } else if (char === '{') {
+                depth++
+            } else if (char === '}' && --depth === 0) {
+                this.i = j + 1
+                return { content: css.slice(start, j), closed: true }
+            }
+        }
+        this.i = css.length
+        return { content: css.slice(start), closed: false }
+    }
+
+    /**
+     * Reads rules until the end of the enclosing block (`nested`) or of the
+     * stylesheet
+     */
+    private rules(nested: boolean): { rules: string[], closed: boolean } {
+        const { css } = this
+        const rules: string[] = []
+
+        while (true) {
+            while (this.i < css.length && /\s|;/.test(css[this.i])) this.i++
+            if (this.i >= css.length) return { rules, closed: false }
+
+            if (css[this.i] === '}') {
+                this.i++
+                if (nested) return { rules, closed: true }
+                this.fix('dropped', 'Unmatched closing brace', css.slice(this.i - 1))
+                continue
+            }
+
+            const rule = css[this.i] === '@' ? this.atRule() : this.styleRule()
+            if (rule !== null) rules.push(rule)
+        }
+    }
+
+    private styleRule(): string | null {
+        const start = this.i
+        const { text, stop } = this.prelude()
+        const selector = text.trim()
+
+        if (stop !== '{') {
+            this.fix('dropped', 'Rule without a declaration block', this.css.slice(start, this.i))
+            return null
+        }
+
+        const block = this.block()
+        const source = this.css.slice(start, this.i)
+        if (!selector) {
+            this.fix('dropped', 'Rule without a selector', source)
+            return null
+        }
+        const { depth, badString } = this.balance(selector)
+        if (depth !== 0 || badString) {
+            this.fix('dropped', 'Invalid selector', source)
+            return null
+        }
+        if (!block.closed) this.fix('repaired', 'Unclosed rule', source)
+
+        // Blocks using CSS nesting are passed through as they are
+        const body = block.content.includes('{')
+            ? block.content.trim()
+            : this.declarations(block.content).join('; ')
+        return `${selector} { ${body} }`
+    }
+
+    private atRule(): string | null {
+        const start = this.i
+        this.i++
+        const name = /^[\w-]*/.exec(this.css.slice(this.i))![0].toLowerCase()
+        this.i += name.length
+
+        const { text, stop } = this.prelude()
+        const head = `@${name}${text}`.trim()
+
+        if (stop !== '{') {
+            if (STATEMENT_AT_RULES.has(name)) {
+                if (stop !== ';') this.fix('repaired', `Missing ; after @${name}`, head)
+                return `${this.rewriteUrls(head)};`
+            }
+            this.fix('dropped', `@${name} without a block`, this.css.slice(start, this.i))
+            return null
+        }
+
+        if (NESTING_AT_RULES.has(name) || KEYFRAMES.test(name)) {
+            const inner = this.rules(true)
+            if (!inner.closed) this.fix('repaired', `Unclosed @${name} block`, head)
+            return `${head} {\n${inner.rules.join('\n')}\n}`
+        }
+
+        const block = this.block()
+        if (!block.closed) this.fix('repaired', `Unclosed @${name} block`, head)
+        const body = DECLARATION_AT_RULES.has(name)
+            ? this.declarations(block.content).join('; ')
+            : block.content.trim()
+        return `${head} { ${body} }`
+    }
+
+    private rewriteUrls(value: string): string {
+        return value.replace(URL_FUNCTION, (match, single?: string, double?: string, bare?: string) => {
+            const raw = (single ?? double ?? bare ?? '').trim()
+            const rewritten = this.rewriteUrl(raw)
+            return rewritten === null ? match : `url("${rewritten.replace(/"/g, '%22')}")`
+        })
+    }
+
+    /**
+     * Makes an asset URL loadable from the player, or returns null if it is
+     * fine as it is (or cannot be helped)
+     */
+    private rewriteUrl(raw: string): string | null {
+        if (!raw || raw.startsWith('#') || /^(data|blob|about):/i.test(raw)) return null
+        const { baseUrl, proxyUrl } = this.options
+
+        let url: URL
+        let resolved = false
+        try {
+            url = new URL(raw)
+        } catch {
+            if (!baseUrl) return null
+            try {
+                url = new URL(raw, baseUrl)
+                resolved = true
+            } catch {
+                return null
+            }
+        }
+
+        if (proxyUrl && (url.protocol === 'http:' || url.protocol === 'https:') && isUnreachable(url)) {
+            this.fix('rewritten', 'Asset URL sent through the proxy', raw)
+            return proxied(url.href, proxyUrl)
+        }
+        if (resolved) {
+            this.fix('rewritten', 'Relative asset URL resolved against the page', raw)
+            return url.href
+        }
+        return null
+    }
+}
+
+/**
+ * Sanitizes a whole stylesheet (`_cssText` or `<style>` contents)
+ */
+export function sanitizeStylesheet(css: string, options: CssSanitizeOptions = {}): CssSanitizeResult {
+    const sanitizer = new CssSanitizer(options)
+    const result = sanitizer.stylesheet(css)
+    return sanitizer.fixes.length > 0 ? { css: result, fixes: sanitizer.fixes } : { css, fixes: [] }
+}
+
+/**
+ * Sanitizes the declarations of an inline `style` attribute
+ */
+export function sanitizeDeclarations(text: string, options: CssSanitizeOptions = {}): CssSanitizeResult {
+    const sanitizer = new CssSanitizer(options)
+    const result = sanitizer.declarations(text).join('; ')
+    return sanitizer.fixes.length > 0 ? { css: result, fixes: sanitizer.fixes } : { css: text, fixes: [] }
+}
@@ -0,0 +1,60 @@
+import { EventType, isFullSnapshot, isMeta, type RecordingEvent } from './events'
+
+/**
+ * Problems found while loading and processing a recording. They are listed
+ * in the event inspector rather than logged, so they can be read next to the
+ * events they are about.
+ */
+
+export type DiagnosticLevel = 'info' | 'warning' | 'error'
+
+export interface Diagnostic {
+    level: DiagnosticLevel
+    message: string
+    /** Epoch ms of the event the diagnostic is about */
+    timestamp?: number
+    /** Index of the snapshot source it came from, when loaded from PostHog */
+    source?: number
+}
+
+/**
+ * Checks a recording as a whole for what keeps rrweb from replaying it
+ * faithfully. Runs on the events loaded so far, so a missing FullSnapshot may
+ * still arrive with a later blob.
+ */
+export function recordingDiagnostics(events: RecordingEvent[]): Diagnostic[] {
+    if (events.length === 0) {
+        return [{ level: 'error', message: 'The recording has no events' }]
+    }
+
+    const diagnostics: Diagnostic[] = []
+    const firstSnapshot = events.findIndex(isFullSnapshot)
+    if (firstSnapshot === -1) {
+        const types = [...new Set(events.map((event) => EventType[event.type] ?? event.type))]
+        diagnostics.push({
+            level: 'error',
+            message: `No FullSnapshot found in ${events.length} events, so the page cannot be rebuilt (event types: ${types.join(', ')})`,
+        })
+    } else if (firstSnapshot > 0 && events.slice(0, firstSnapshot).some((event) => event.type === EventType.IncrementalSnapshot)) {
+        diagnostics.push({
+            level: 'info',
+            message: 'Incremental events before the first FullSnapshot have no page to apply to',
+            timestamp: events[firstSnapshot].timestamp,
+        })
+    }
+
+    if (!events.some(isMeta)) {
+        diagnostics.push({ level: 'warning', message: 'No Meta event: the page URL and original viewport size are unknown' })
+    }
+
+    const outOfOrder = events.findIndex((event, i) => i > 0 && event.timestamp < events[i - 1].timestamp)
+    if (outOfOrder !== -1) {
+        diagnostics.push({
+            level: 'warning',
+            message: 'Events are not in timestamp order; playback may apply them out of sequence',
+            timestamp: events[outOfOrder].timestamp,
+        })
+    }
+
+    return diagnostics
+}
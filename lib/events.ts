@@ -0,0 +1,278 @@
+import { EventType, IncrementalSource, MouseInteractions, NodeType } from '@rrweb/types'
+import type {
+    customEvent,
+    eventWithTime,
+    fullSnapshotEvent,
+    incrementalData,
+    incrementalSnapshotEvent,
+    metaEvent,
+    mousemoveData,
+    mutationData,
+    pluginEvent,
+    serializedNodeWithId,
+} from '@rrweb/types'
+import type { CssDiagnostic } from './css'
+import type { Diagnostic } from './diagnostics'
+
+/**
+ * Typed rrweb event model used throughout the player pipeline.
+ *
+ * The enums come from @rrweb/types so that processed events can be handed to
+ * rrweb's Replayer without casts.
+ */
+
+export { EventType, IncrementalSource, MouseInteractions, NodeType }
+export type { serializedNodeWithId as SerializedNode }
+
+/**
+ * A processed event, ready for the Replayer. Discriminated on `type`
+ * (and on `data.source` for incremental snapshots).
+ */
+export type RecordingEvent = eventWithTime
+
+type WithTime<T> = T & { timestamp: number, delay?: number }
+
+export type FullSnapshotEvent = WithTime<fullSnapshotEvent>
+export type IncrementalSnapshotEvent = WithTime<incrementalSnapshotEvent>
+export type MetaEvent = WithTime<metaEvent>
+export type CustomEvent<T = unknown> = WithTime<customEvent<T>>
+export type PluginEvent<T = unknown> = WithTime<pluginEvent<T>>
+
+/**
+ * An incremental snapshot narrowed to one IncrementalSource
+ */
+export type IncrementalEvent<S extends IncrementalSource> = IncrementalSnapshotEvent & {
+    data: Extract<incrementalData, { source: S }>
+}
+
+export type MutationEvent = IncrementalSnapshotEvent & { data: mutationData }
+
+/**
+ * MouseMove, TouchMove and Drag share one data shape, so IncrementalEvent
+ * cannot narrow to any one of them
+ */
+export type PointerMoveEvent = IncrementalSnapshotEvent & { data: mousemoveData }
+
+/**
+ * An event after ingest normalization: `type` and `timestamp` are numbers,
+ * PostHog-only properties are gone, but `data` has not been checked yet
+ * (it may still hold compressed strings).
+ */
+export interface IngestedEvent {
+    type: EventType
+    timestamp: number
+    data: unknown
+    [key: string]: unknown
+}
+
+/**
+ * An event that was dropped, with the position it had in the input
+ */
+export interface EventIssue {
+    index: number
+    reason: string
+    /** Index of the snapshot source the event came from, when loaded from PostHog */
+    source?: number
+}
+
+export interface EventValidationResult {
+    events: RecordingEvent[]
+    issues: EventIssue[]
+    /** Changes made to broken or unreachable CSS (see lib/css.ts) */
+    css: CssDiagnostic[]
+    /** Warnings from decoding and decompression (see lib/diagnostics.ts) */
+    diagnostics: Diagnostic[]
+}
+
+/**
+ * `warnings` lists parts of an accepted event that were dropped
+ */
+export type EventCheck<T> = { event: T, warnings?: string[] } | { reason: string }
+
+const EVENT_TYPES = new Set<number>(
+    Object.values(EventType).filter((value): value is number => typeof value === 'number')
+)
+const INCREMENTAL_SOURCES = new Set<number>(
+    Object.values(IncrementalSource).filter((value): value is number => typeof value === 'number')
+)
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value)
+        return Number.isFinite(parsed) ? parsed : null
+    }
+    return null
+}
+
+/**
+ * Checks a serialized node and its descendants for the fields processing reads
+ */
+function isSerializedNode(value: unknown): boolean {
+    if (!isRecord(value) || typeof value.id !== 'number') return false
+    if (value.type === NodeType.Element && !isRecord(value.attributes)) return false
+    if (value.type === NodeType.Element || value.type === NodeType.Document) {
+        return Array.isArray(value.childNodes) && value.childNodes.every(isSerializedNode)
+    }
+    return true
+}
+
+const MUTATION_ITEM_CHECKS: Record<'adds' | 'removes' | 'texts' | 'attributes', (item: unknown) => boolean> = {
+    adds: (item) => isRecord(item) && isSerializedNode(item.node),
+    removes: (item) => isRecord(item) && typeof item.id === 'number',
+    texts: (item) => isRecord(item) && typeof item.id === 'number',
+    attributes: (item) => isRecord(item) && typeof item.id === 'number' && isRecord(item.attributes),
+}
+
+/**
+ * Drops malformed items from a mutation payload, so one bad entry does not
+ * take the whole event (or blob) down with it
+ */
+function validateMutation(data: Record<string, unknown>): EventCheck<Record<string, unknown>> {
+    let result = data
+    const warnings: string[] = []
+
+    for (const [key, check] of Object.entries(MUTATION_ITEM_CHECKS)) {
+        const items = data[key] ?? []
+        if (!Array.isArray(items)) {
+            return { reason: `Mutation has no ${key} list` }
+        }
+        const valid = items.filter(check)
+        if (valid.length !== items.length || data[key] === undefined) {
+            result = { ...result, [key]: valid }
+        }
+        if (valid.length !== items.length) {
+            warnings.push(`Skipped ${items.length - valid.length} malformed Mutation ${key} item(s)`)
+        }
+    }
+
+    return warnings.length > 0 ? { event: result, warnings } : { event: result }
+}
+
+/**
+ * Coerces an event as PostHog delivers it into an IngestedEvent. String
+ * `type`/`timestamp` values become numbers here, once, so nothing downstream
+ * has to compare against '2' and 2.
+ */
+export function normalizeEvent(raw: unknown): EventCheck<IngestedEvent> {
+    if (!isRecord(raw)) {
+        return { reason: 'Event is not an object' }
+    }
+
+    const type = toNumber(raw.type)
+    if (type === null || !EVENT_TYPES.has(type)) {
+        return { reason: `Unknown event type ${JSON.stringify(raw.type)}` }
+    }
+
+    const timestamp = toNumber(raw.timestamp)
+    if (timestamp === null) {
+        return { reason: `Event of type ${EventType[type]} has no valid timestamp` }
+    }
+
+    // Remove PostHog-specific properties (shallow copy for performance)
+    const cleaned: Record<string, unknown> = { ...raw }
+    delete cleaned.cv
+    delete cleaned.delay
+
+    return { event: { ...cleaned, type, timestamp, data: raw.data } }
+}
+
+/**
+ * Checks that an ingested (and decompressed) event has the data shape the
+ * Replayer expects for its type
+ */
+export function validateEvent(event: IngestedEvent): EventCheck<RecordingEvent> {
+    const { data } = event
+    const name = EventType[event.type]
+    let warnings: string[] | undefined
+
+    switch (event.type) {
+        case EventType.FullSnapshot:
+            if (!isRecord(data) || !isRecord(data.node) || typeof data.node.id !== 'number') {
+                return { reason: `${name} has no serialized node tree` }
+            }
+            break
+        case EventType.IncrementalSnapshot: {
+            if (!isRecord(data)) {
+                return { reason: `${name} has no data` }
+            }
+            const source = toNumber(data.source)
+            if (source === null || !INCREMENTAL_SOURCES.has(source)) {
+                return { reason: `${name} has unknown source ${JSON.stringify(data.source)}` }
+            }
+            let checked: Record<string, unknown> = source === data.source ? data : { ...data, source }
+            if (source === IncrementalSource.Mutation) {
+                const mutation = validateMutation(checked)
+                if ('reason' in mutation) {
+                    return { reason: `${name} ${mutation.reason}` }
+                }
+                checked = mutation.event
+                warnings = mutation.warnings
+            }
+            if (checked !== data) {
+                event = { ...event, data: checked }
+            }
+            break
+        }
+        case EventType.Meta:
+            if (!isRecord(data) || typeof data.href !== 'string') {
+                return { reason: `${name} has no href` }
+            }
+            break
+        case EventType.Custom:
+            if (!isRecord(data) || typeof data.tag !== 'string') {
+                return { reason: `${name} has no tag` }
+            }
+            break
+        case EventType.Plugin:
+            if (!isRecord(data) || typeof data.plugin !== 'string') {
+                return { reason: `${name} has no plugin name` }
+            }
+            break
+    }
+
+    const validated = event as unknown as RecordingEvent
+    return warnings ? { event: validated, warnings } : { event: validated }
+}
+
+export function isFullSnapshot(event: RecordingEvent): event is FullSnapshotEvent {
+    return event.type === EventType.FullSnapshot
+}
+
+export function isMeta(event: RecordingEvent): event is MetaEvent {
+    return event.type === EventType.Meta
+}
+
+export function isCustom(event: RecordingEvent): event is CustomEvent {
+    return event.type === EventType.Custom
+}
+
+export function isPlugin(event: RecordingEvent): event is PluginEvent {
+    return event.type === EventType.Plugin
+}
+
+/**
+ * Narrows to an incremental snapshot, optionally of a specific source
+ */
+export function isIncremental<S extends IncrementalSource>(
+    event: RecordingEvent,
+    source?: S
+): event is IncrementalEvent<S> {
+    return event.type === EventType.IncrementalSnapshot &&
+        (source === undefined || event.data.source === source)
+}
+
+/**
+ * Names of an event's type and, for incremental snapshots, its source
+ * (`IncrementalSnapshot` / `Mutation`), for display
+ */
+export function eventKindNames(event: RecordingEvent): { type: string, source: string | null } {
+    return {
+        type: EventType[event.type] ?? String(event.type),
+        source: isIncremental(event) ? IncrementalSource[event.data.source] ?? String(event.data.source) : null,
+    }
+}
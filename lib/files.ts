@@ -0,0 +1,73 @@
+import { annotationToEvent } from './annotations'
+import type { CssDiagnostic } from './css'
+import { recordingDiagnostics, type Diagnostic } from './diagnostics'
+import type { EventIssue, EventValidationResult, RecordingEvent } from './events'
+import type { Annotation } from './types'
+import { processInWorker } from './worker/client'
+
+/**
+ * Import and export of rrweb recordings as local files
+ */
+
+export const RECORDING_FILE_ACCEPT = '.json,.ndjson,.jsonl,application/json,application/x-ndjson'
+
+/**
+ * Runs recording files (JSON or NDJSON, PostHog `[windowId, event]` tuples or
+ * plain rrweb event arrays) through the snapshot pipeline and merges them
+ * into one timeline
+ */
+export async function importRecordingFiles(files: File[]): Promise<EventValidationResult> {
+    const events: RecordingEvent[] = []
+    const issues: EventIssue[] = []
+    const css: CssDiagnostic[] = []
+    const diagnostics: Diagnostic[] = []
+
+    for (const file of files) {
+        const buffer = await file.arrayBuffer()
+        let result: EventValidationResult
+        try {
+            result = (await processInWorker(buffer)).result
+        } catch (error) {
+            throw new Error(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'invalid file'}`)
+        }
+        events.push(...result.events)
+        issues.push(...result.issues)
+        css.push(...result.css)
+        diagnostics.push(...result.diagnostics.map((diagnostic) => ({ ...diagnostic, message: `${file.name}: ${diagnostic.message}` })))
+    }
+
+    // Files may come in any order; the replayer needs one chronological stream
+    events.sort((a, b) => a.timestamp - b.timestamp)
+    diagnostics.push(...recordingDiagnostics(events))
+
+    return { events, issues, css, diagnostics }
+}
+
+/**
+ * Downloads processed events as a self-contained rrweb JSON file (a plain,
+ * fully decompressed event array that any rrweb player can load). Annotations
+ * are included as custom events.
+ */
+export function downloadRecording(events: RecordingEvent[], filename: string, annotations: Annotation[] = []) {
+    const exported = annotations.length > 0
+        ? [...events, ...annotations.map(annotationToEvent)].sort((a, b) => a.timestamp - b.timestamp)
+        : events
+    downloadBlob(new Blob([JSON.stringify(exported)], { type: 'application/json' }), filename)
+}
+
+/**
+ * Saves a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
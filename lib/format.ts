@@ -0,0 +1,60 @@
+/**
+ * Display formatting helpers
+ */
+
+/**
+ * Formats a duration in milliseconds as m:ss, or h:mm:ss for an hour or more
+ */
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+    const hours = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    const seconds = totalSeconds % 60
+    const ss = String(seconds).padStart(2, '0')
+
+    if (hours > 0) {
+        return `${hours}:${String(minutes).padStart(2, '0')}:${ss}`
+    }
+    return `${minutes}:${ss}`
+}
+
+/**
+ * Formats a byte count as B, KB, MB or GB
+ */
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB']
+    let value = bytes
+    let unit = 0
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024
+        unit++
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`
+}
+
+/**
+ * Parses a duration typed or linked by a user into milliseconds. Accepts plain
+ * seconds (`222`), clock times (`3:42`, `1:03:42`) and units (`3m42s`, `1h2m`).
+ */
+export function parseDuration(text: string): number | null {
+    const value = text.trim()
+
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        return Math.round(Number(value) * 1000)
+    }
+
+    const clock = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/)
+    if (clock) {
+        const [, hours = '0', minutes, seconds] = clock
+        if (Number(seconds) >= 60 || (clock[1] !== undefined && Number(minutes) >= 60)) return null
+        return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000
+    }
+
+    const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/i)
+    if (units && value !== '') {
+        const [, hours = '0', minutes = '0', seconds = '0'] = units
+        return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000
+    }
+
+    return null
+}
@@ -0,0 +1,235 @@
+import { formatConsoleMessage, isConsoleEvent } from './console'
+import {
+    IncrementalSource,
+    isFullSnapshot,
+    isIncremental,
+    MouseInteractions,
+    NodeType,
+    type RecordingEvent,
+} from './events'
+import type { TimelineMarker } from './markers'
+import { getNavigationHref } from './navigation'
+import { NodeIndex } from './nodes'
+import { describeElement } from './selectors'
+
+/**
+ * Moments where a user likely got stuck:
+ * - rage clicks: several clicks close together in place and time
+ * - dead clicks: a click the page did not react to (no DOM change,
+ *   navigation or input within a timeout)
+ * - error clicks: a click followed by a console error
+ */
+
+export type FrustrationKind = 'rage' | 'dead' | 'error'
+
+export interface FrustrationThresholds {
+    /** Clicks it takes to count as a rage click */
+    rageClickCount: number
+    /** Maximum distance in px from the first click of a rage click */
+    rageClickRadius: number
+    /** Time in ms all clicks of a rage click must fall into */
+    rageClickWindow: number
+    /** A click with no reaction within this many ms is dead */
+    deadClickTimeout: number
+    /** A console error this many ms after a click is attributed to it */
+    errorClickWindow: number
+}
+
+export const DEFAULT_FRUSTRATION_THRESHOLDS: FrustrationThresholds = {
+    rageClickCount: 3,
+    rageClickRadius: 30,
+    rageClickWindow: 1000,
+    deadClickTimeout: 2000,
+    errorClickWindow: 2000,
+}
+
+export const FRUSTRATION_KINDS: Record<FrustrationKind, { label: string }> = {
+    rage: { label: 'Rage click' },
+    dead: { label: 'Dead click' },
+    error: { label: 'Error click' },
+}
+
+export interface FrustrationSignal {
+    /** Index of the (first) click event; unique per kind */
+    id: string
+    kind: FrustrationKind
+    /** Epoch ms of the (first) click */
+    timestamp: number
+    /** Epoch ms of the last click of a rage click */
+    endTimestamp?: number
+    /** Number of clicks involved */
+    clicks: number
+    nodeId: number
+    /** Selector of the clicked element, rebuilt from the recorded DOM; null if the node was unknown */
+    selector: string | null
+    /** The console error of an error click */
+    detail?: string
+}
+
+interface Click {
+    index: number
+    timestamp: number
+    nodeId: number
+    x?: number
+    y?: number
+    selector: string | null
+    /** Element tag and type, to leave out clicks that only focus a field */
+    tagName?: string
+    inputType?: string
+}
+
+// Clicks on these only focus the field, so no visible reaction is expected
+const FOCUS_ONLY_TAGS = new Set(['textarea', 'select'])
+const FOCUS_ONLY_INPUT_TYPES = new Set(['', 'text', 'email', 'password', 'search', 'tel', 'url', 'number', 'date', 'time'])
+
+function isFocusOnly(click: Click): boolean {
+    if (click.tagName && FOCUS_ONLY_TAGS.has(click.tagName)) return true
+    return click.tagName === 'input' && FOCUS_ONLY_INPUT_TYPES.has(click.inputType ?? '')
+}
+
+/**
+ * Whether an event shows the page reacting to a click
+ */
+function isReaction(event: RecordingEvent): boolean {
+    return isFullSnapshot(event) ||
+        isIncremental(event, IncrementalSource.Mutation) ||
+        isIncremental(event, IncrementalSource.Input) ||
+        getNavigationHref(event) !== null
+}
+
+/**
+ * The first event at most `window` ms after the event at `index` that passes `test`
+ */
+function findWithin(
+    events: RecordingEvent[],
+    index: number,
+    window: number,
+    test: (event: RecordingEvent) => boolean
+): RecordingEvent | undefined {
+    const start = events[index].timestamp
+    for (let i = index + 1; i < events.length && events[i].timestamp - start <= window; i++) {
+        if (test(events[i])) return events[i]
+    }
+    return undefined
+}
+
+function collectClicks(events: RecordingEvent[]): Click[] {
+    const nodes = new NodeIndex()
+    const clicks: Click[] = []
+
+    events.forEach((event, index) => {
+        nodes.apply(event)
+        if (!isIncremental(event, IncrementalSource.MouseInteraction) || event.data.type !== MouseInteractions.Click) return
+
+        const { id: nodeId, x, y } = event.data
+        // Clicks can land on text nodes; describe the element around them
+        const target = nodes.get(nodeId)
+        const element = target && target.type !== NodeType.Element ? nodes.ancestors(nodeId)[0] : target
+        clicks.push({
+            index,
+            timestamp: event.timestamp,
+            nodeId,
+            x,
+            y,
+            selector: element ? describeElement(element, nodes.ancestors(element.id)) : null,
+            tagName: element?.tagName,
+            inputType: typeof element?.attributes.type === 'string' ? element.attributes.type.toLowerCase() : undefined,
+        })
+    })
+
+    return clicks
+}
+
+function findRageClicks(clicks: Click[], thresholds: FrustrationThresholds): { signals: FrustrationSignal[], clustered: Set<number> } {
+    const signals: FrustrationSignal[] = []
+    const clustered = new Set<number>()
+    let cluster: Click[] = []
+
+    const flush = () => {
+        if (cluster.length >= thresholds.rageClickCount) {
+            const [first] = cluster
+            signals.push({
+                id: `rage-${first.index}`,
+                kind: 'rage',
+                timestamp: first.timestamp,
+                endTimestamp: cluster[cluster.length - 1].timestamp,
+                clicks: cluster.length,
+                nodeId: first.nodeId,
+                selector: first.selector,
+            })
+            for (const click of cluster) clustered.add(click.index)
+        }
+        cluster = []
+    }
+
+    for (const click of clicks) {
+        if (click.x === undefined || click.y === undefined) {
+            flush()
+            continue
+        }
+        const first = cluster[0]
+        const joins = first !== undefined &&
+            click.timestamp - first.timestamp <= thresholds.rageClickWindow &&
+            Math.hypot(click.x - first.x!, click.y - first.y!) <= thresholds.rageClickRadius
+        if (!joins) flush()
+        cluster.push(click)
+    }
+    flush()
+
+    return { signals, clustered }
+}
+
+/**
+ * Finds rage, dead and error clicks in a recording, in chronological order.
+ * Clicks that are part of a rage click are not reported as dead clicks as well.
+ */
+export function detectFrustration(
+    events: RecordingEvent[],
+    thresholds: FrustrationThresholds = DEFAULT_FRUSTRATION_THRESHOLDS
+): FrustrationSignal[] {
+    const clicks = collectClicks(events)
+    const { signals, clustered } = findRageClicks(clicks, thresholds)
+    const end = events[events.length - 1]?.timestamp ?? 0
+
+    for (const click of clicks) {
+        const error = findWithin(events, click.index, thresholds.errorClickWindow, (event) =>
+            isConsoleEvent(event) && event.data.payload.level === 'error')
+        if (error && isConsoleEvent(error)) {
+            signals.push({
+                id: `error-${click.index}`,
+                kind: 'error',
+                timestamp: click.timestamp,
+                clicks: 1,
+                nodeId: click.nodeId,
+                selector: click.selector,
+                detail: formatConsoleMessage(error.data.payload),
+            })
+        }
+
+        // A click too close to the end of the recording may still have been answered
+        if (clustered.has(click.index) || isFocusOnly(click) || end - click.timestamp < thresholds.deadClickTimeout) continue
+        if (!findWithin(events, click.index, thresholds.deadClickTimeout, isReaction)) {
+            signals.push({
+                id: `dead-${click.index}`,
+                kind: 'dead',
+                timestamp: click.timestamp,
+                clicks: 1,
+                nodeId: click.nodeId,
+                selector: click.selector,
+            })
+        }
+    }
+
+    return signals.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+export function frustrationMarkers(signals: FrustrationSignal[]): TimelineMarker[] {
+    return signals.map((signal) => ({
+        id: `frustration-${signal.id}`,
+        type: 'frustration',
+        timestamp: signal.timestamp,
+        endTimestamp: signal.endTimestamp,
+        label: signal.kind === 'rage' ? `Rage click (${signal.clicks}×)` : FRUSTRATION_KINDS[signal.kind].label,
+        detail: signal.detail?.split('\n')[0] ?? signal.selector ?? `Node #${signal.nodeId}`,
+    }))
+}
@@ -0,0 +1,283 @@
+import {
+    IncrementalSource,
+    isFullSnapshot,
+    isIncremental,
+    isMeta,
+    MouseInteractions,
+    type PointerMoveEvent,
+    type RecordingEvent,
+} from './events'
+import { getNavigationHref } from './navigation'
+
+/**
+ * Clicks, mouse movement and scroll depth aggregated per page, for drawing
+ * heatmaps over the page's DOM.
+ *
+ * rrweb records pointer positions relative to the viewport, so the window
+ * scroll offset at that moment is added: every coordinate here is a
+ * document coordinate.
+ */
+
+export type HeatmapMode = 'clicks' | 'moves'
+
+export interface HeatPoint {
+    x: number
+    y: number
+    count: number
+}
+
+export interface PageHeatmap {
+    /** Page URL without query string and hash */
+    url: string
+    visits: number
+    clicks: HeatPoint[]
+    moves: HeatPoint[]
+    /** How far down each visit got: the lowest document y that was in view, in px */
+    scrollDepths: number[]
+    /** Viewport of the first visit; the heatmap is drawn over that layout */
+    viewport: { width: number; height: number }
+    /** Moment of the first visit to render the page at: index of the recording and epoch ms */
+    snapshot: { recording: number; timestamp: number }
+}
+
+// Pointer positions closer than this (px) are counted as one spot
+const CELL_SIZE = 8
+// How long after arriving on a page its DOM is captured, so late content has rendered
+const SNAPSHOT_DELAY_MS = 1000
+
+// Shares of visits marked on the scroll depth guides
+const SCROLL_REACH_SHARES = [0.75, 0.5, 0.25]
+
+interface PageAccumulator {
+    url: string
+    visits: number
+    clicks: Map<string, HeatPoint>
+    moves: Map<string, HeatPoint>
+    scrollDepths: number[]
+    viewport: { width: number; height: number }
+    snapshot: { recording: number; timestamp: number } | null
+}
+
+/**
+ * Pages are compared without query string and hash, which rarely change the layout
+ */
+export function pageKey(href: string): string {
+    try {
+        const url = new URL(href)
+        return `${url.origin}${url.pathname}`
+    } catch {
+        return href.split(/[?#]/)[0]
+    }
+}
+
+function isPointerMove(event: RecordingEvent): event is PointerMoveEvent {
+    return isIncremental(event) &&
+        (event.data.source === IncrementalSource.MouseMove || event.data.source === IncrementalSource.TouchMove)
+}
+
+function addPoint(cells: Map<string, HeatPoint>, x: number, y: number) {
+    const cellX = Math.floor(x / CELL_SIZE)
+    const cellY = Math.floor(y / CELL_SIZE)
+    const key = `${cellX}:${cellY}`
+    const cell = cells.get(key)
+    if (cell) {
+        cell.count++
+    } else {
+        cells.set(key, { x: cellX * CELL_SIZE + CELL_SIZE / 2, y: cellY * CELL_SIZE + CELL_SIZE / 2, count: 1 })
+    }
+}
+
+/**
+ * Aggregates one or more recordings into a heatmap per page, busiest first
+ */
+export function aggregateHeatmaps(recordings: RecordingEvent[][]): PageHeatmap[] {
+    const pages = new Map<string, PageAccumulator>()
+
+    recordings.forEach((events, recording) => {
+        let page: PageAccumulator | null = null
+        let viewport = { width: 0, height: 0 }
+        let scroll = { x: 0, y: 0 }
+        // Scroll events of the window carry the id of the document node
+        let documentId: number | null = null
+        let visitStart = 0
+        let visitEnd = 0
+        let depth = 0
+
+        const finishVisit = () => {
+            if (!page) return
+            page.scrollDepths.push(depth)
+            page.snapshot ??= { recording, timestamp: Math.min(visitStart + SNAPSHOT_DELAY_MS, visitEnd) }
+        }
+        const updateDepth = () => {
+            depth = Math.max(depth, scroll.y + viewport.height)
+        }
+
+        for (const event of events) {
+            if (isMeta(event)) {
+                viewport = { width: event.data.width, height: event.data.height }
+            }
+
+            const href = getNavigationHref(event)
+            if (href !== null && pageKey(href) !== page?.url) {
+                finishVisit()
+                const url = pageKey(href)
+                page = pages.get(url) ?? null
+                if (!page) {
+                    page = { url, visits: 0, clicks: new Map(), moves: new Map(), scrollDepths: [], viewport, snapshot: null }
+                    pages.set(url, page)
+                }
+                page.visits++
+                visitStart = event.timestamp
+                depth = 0
+                updateDepth()
+            }
+            if (!page) continue
+            visitEnd = event.timestamp
+
+            if (isPointerMove(event)) {
+                for (const position of event.data.positions) {
+                    addPoint(page.moves, position.x + scroll.x, position.y + scroll.y)
+                }
+            } else if (isFullSnapshot(event)) {
+                documentId = event.data.node.id
+                scroll = { x: event.data.initialOffset.left, y: event.data.initialOffset.top }
+                updateDepth()
+            } else if (isIncremental(event, IncrementalSource.ViewportResize)) {
+                viewport = { width: event.data.width, height: event.data.height }
+                updateDepth()
+            } else if (isIncremental(event, IncrementalSource.Scroll)) {
+                if (event.data.id === documentId) {
+                    scroll = { x: event.data.x, y: event.data.y }
+                    updateDepth()
+                }
+            } else if (isIncremental(event, IncrementalSource.MouseInteraction)) {
+                const { type, x, y } = event.data
+                if (type === MouseInteractions.Click && x !== undefined && y !== undefined) {
+                    addPoint(page.clicks, x + scroll.x, y + scroll.y)
+                }
+            }
+        }
+        finishVisit()
+    })
+
+    return [...pages.values()]
+        .filter((page) => page.snapshot !== null)
+        .map((page) => ({
+            url: page.url,
+            visits: page.visits,
+            clicks: [...page.clicks.values()],
+            moves: [...page.moves.values()],
+            scrollDepths: page.scrollDepths,
+            viewport: page.viewport,
+            snapshot: page.snapshot!,
+        }))
+        .sort((a, b) => b.visits - a.visits || b.clicks.length - a.clicks.length)
+}
+
+export function heatPoints(page: PageHeatmap, mode: HeatmapMode): HeatPoint[] {
+    return mode === 'clicks' ? page.clicks : page.moves
+}
+
+export function maxCount(points: HeatPoint[]): number {
+    return points.reduce((max, point) => Math.max(max, point.count), 0)
+}
+
+/**
+ * The document y that at least `share` of the visits scrolled down to
+ */
+export function scrollReach(depths: number[], share: number): number {
+    if (depths.length === 0) return 0
+    const sorted = [...depths].sort((a, b) => b - a)
+    return sorted[Math.max(0, Math.ceil(share * sorted.length) - 1)]
+}
+
+// Cold to hot, also used for the legend
+export const HEAT_GRADIENT: [number, string][] = [
+    [0.25, 'rgb(0, 0, 255)'],
+    [0.55, 'rgb(0, 255, 0)'],
+    [0.85, 'rgb(255, 255, 0)'],
+    [1, 'rgb(255, 0, 0)'],
+]
+
+// Opacity of the hottest spots, so the page stays readable underneath
+const MAX_OPACITY = 200
+const POINT_RADIUS = 20
+
+let palette: Uint8ClampedArray | null = null
+
+/**
+ * 256 RGBA colours along the heat gradient, indexed by intensity
+ */
+function heatPalette(): Uint8ClampedArray {
+    if (palette) return palette
+    const canvas = document.createElement('canvas')
+    canvas.width = 256
+    canvas.height = 1
+    const ctx = canvas.getContext('2d')!
+    const gradient = ctx.createLinearGradient(0, 0, 256, 0)
+    for (const [stop, color] of HEAT_GRADIENT) gradient.addColorStop(stop, color)
+    ctx.fillStyle = gradient
+    ctx.fillRect(0, 0, 256, 1)
+    palette = ctx.getImageData(0, 0, 256, 1).data
+    return palette
+}
+
+/**
+ * Draws the density of `points` onto `canvas`, followed by dashed guides
+ * for how far down the given share of visits scrolled
+ */
+export function drawHeatmap(canvas: HTMLCanvasElement, points: HeatPoint[], scrollDepths: number[]) {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) return
+    const { width, height } = canvas
+    ctx.clearRect(0, 0, width, height)
+
+    // Intensity pass: overlapping translucent blobs accumulate alpha
+    const max = maxCount(points)
+    for (const point of points) {
+        const alpha = Math.max(0.05, point.count / max)
+        const gradient = ctx.createRadialGradient(point.x, point.y, 0, point.x, point.y, POINT_RADIUS)
+        gradient.addColorStop(0, `rgba(0, 0, 0, ${alpha})`)
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0)')
+        ctx.fillStyle = gradient
+        ctx.fillRect(point.x - POINT_RADIUS, point.y - POINT_RADIUS, POINT_RADIUS * 2, POINT_RADIUS * 2)
+    }
+
+    // Colour pass: map each pixel's alpha onto the heat gradient
+    if (points.length > 0) {
+        const colors = heatPalette()
+        const image = ctx.getImageData(0, 0, width, height)
+        const data = image.data
+        for (let i = 0; i < data.length; i += 4) {
+            const intensity = data[i + 3]
+            if (intensity === 0) continue
+            data[i] = colors[intensity * 4]
+            data[i + 1] = colors[intensity * 4 + 1]
+            data[i + 2] = colors[intensity * 4 + 2]
+            data[i + 3] = Math.min(MAX_OPACITY, intensity * 2)
+        }
+        ctx.putImageData(image, 0, 0)
+    }
+
+    if (scrollDepths.length === 0) return
+    ctx.save()
+    ctx.setLineDash([8, 6])
+    ctx.lineWidth = 2
+    ctx.font = '600 13px sans-serif'
+    for (const share of SCROLL_REACH_SHARES) {
+        const y = scrollReach(scrollDepths, share)
+        if (y <= 0 || y >= height) continue
+        const label = `${Math.round(share * 100)}% of visits scrolled to here`
+        ctx.strokeStyle = 'rgba(17, 24, 39, 0.8)'
+        ctx.beginPath()
+        ctx.moveTo(0, y)
+        ctx.lineTo(width, y)
+        ctx.stroke()
+        const labelWidth = ctx.measureText(label).width + 12
+        ctx.fillStyle = 'rgba(17, 24, 39, 0.8)'
+        ctx.fillRect(width - labelWidth - 8, y - 22, labelWidth, 20)
+        ctx.fillStyle = 'white'
+        ctx.fillText(label, width - labelWidth - 2, y - 7)
+    }
+    ctx.restore()
+}
@@ -0,0 +1,170 @@
+import { config } from './config'
+
+/**
+ * fetch with per-attempt timeouts and retries with exponential backoff.
+ * Retries network errors, timeouts, 429 and 5xx responses, waiting for
+ * `Retry-After` when the server sends one. Aborting `signal` cancels the
+ * request and any pending retry immediately.
+ */
+
+export interface RetryOptions {
+    /** Retries after the first attempt */
+    retries?: number
+    /** Timeout of each attempt in ms */
+    timeout?: number
+    /** Delay before the first retry in ms; doubles on every attempt */
+    baseDelay?: number
+    /** Upper bound for any single delay in ms, including Retry-After */
+    maxDelay?: number
+    signal?: AbortSignal
+}
+
+/**
+ * Thrown when an attempt did not finish within its timeout
+ */
+export class RequestTimeoutError extends Error {
+    constructor(public url: string, public timeout: number) {
+        super(`Request timed out after ${timeout}ms`)
+        this.name = 'RequestTimeoutError'
+    }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504])
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError'
+}
+
+function abortError(signal: AbortSignal): unknown {
+    return signal.reason ?? new DOMException('The operation was aborted', 'AbortError')
+}
+
+/**
+ * Resolves after `ms`, or rejects as soon as `signal` aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError(signal))
+            return
+        }
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(abortError(signal!))
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
+
+/**
+ * Parses a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null
+    const seconds = Number(header)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(header)
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+function backoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+    // Equal jitter keeps parallel blob downloads from retrying in lockstep
+    // while still waiting at least half the exponential delay
+    const exponential = baseDelay * 2 ** attempt
+    return Math.min(maxDelay, exponential / 2 + Math.random() * (exponential / 2))
+}
+
+/**
+ * One attempt: the timeout and the caller's signal stay attached until `read`
+ * has finished with the response, so a stalled body is cancelled too
+ */
+async function fetchOnce<T>(
+    url: string,
+    init: RequestInit,
+    timeout: number,
+    signal: AbortSignal | undefined,
+    read: (response: Response) => Promise<T>
+): Promise<T> {
+    const controller = new AbortController()
+    let timedOut = false
+
+    const timer = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+    }, timeout)
+    const onAbort = () => controller.abort(signal?.reason)
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+        const response = await fetch(url, { ...init, signal: controller.signal })
+        return await read(response)
+    } catch (error) {
+        if (timedOut) throw new RequestTimeoutError(url, timeout)
+        throw error
+    } finally {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+    }
+}
+
+type Attempt<T> = { retry: Response } | { value: T }
+
+/**
+ * Without `read` the response is returned once its headers arrive, and the
+ * timeout no longer covers the body. Pass `read` to consume the body within
+ * the attempt: a body that times out or fails midway is retried as well.
+ */
+export function fetchWithRetry(url: string, init?: RequestInit, options?: RetryOptions): Promise<Response>
+export function fetchWithRetry<T>(
+    url: string,
+    init: RequestInit,
+    options: RetryOptions,
+    read: (response: Response) => Promise<T>
+): Promise<T>
+export async function fetchWithRetry<T>(
+    url: string,
+    init: RequestInit = {},
+    options: RetryOptions = {},
+    read: (response: Response) => Promise<T> = async (response) => response as T
+): Promise<T> {
+    const {
+        retries = config.requestRetries,
+        timeout = config.requestTimeoutMs,
+        baseDelay = 500,
+        maxDelay = 30000,
+        signal,
+    } = options
+
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) throw abortError(signal)
+
+        let delay: number
+        try {
+            const outcome = await fetchOnce<Attempt<T>>(url, init, timeout, signal, async (response) => {
+                if (RETRYABLE_STATUSES.has(response.status) && attempt < retries) {
+                    return { retry: response }
+                }
+                return { value: await read(response) }
+            })
+            if ('value' in outcome) return outcome.value
+
+            const response = outcome.retry
+            const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+            delay = Math.min(maxDelay, retryAfter ?? backoffDelay(attempt, baseDelay, maxDelay))
+            console.warn(`⚠️ ${response.status} from ${url}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${retries})`)
+        } catch (error) {
+            if (isAbortError(error) || signal?.aborted || attempt >= retries) {
+                throw error
+            }
+
+            delay = backoffDelay(attempt, baseDelay, maxDelay)
+            console.warn(`⚠️ Request to ${url} failed, retrying in ${Math.round(delay)}ms (${attempt + 1}/${retries}):`, error)
+        }
+
+        await sleep(delay, signal)
+    }
+}
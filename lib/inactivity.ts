@@ -0,0 +1,68 @@
+import { EventType, IncrementalSource, type RecordingEvent } from './events'
+import type { TimeRange } from './types'
+
+/**
+ * Detection of inactivity periods: stretches of a recording without any user
+ * interaction, e.g. while the tab was in the background
+ */
+
+// Incremental sources caused by the user, as opposed to page activity like mutations
+const USER_INTERACTION_SOURCES = new Set<IncrementalSource>([
+    IncrementalSource.MouseMove,
+    IncrementalSource.MouseInteraction,
+    IncrementalSource.Scroll,
+    IncrementalSource.ViewportResize,
+    IncrementalSource.Input,
+    IncrementalSource.TouchMove,
+    IncrementalSource.MediaInteraction,
+    IncrementalSource.Drag,
+    IncrementalSource.Selection,
+])
+
+export interface InactivityOptions {
+    /** Minimum gap between interactions, in ms, to count as inactive */
+    threshold?: number
+    /** Time kept visible after the last and before the next interaction, in ms */
+    padding?: number
+}
+
+export function isUserInteraction(event: RecordingEvent): boolean {
+    return event.type === EventType.IncrementalSnapshot && USER_INTERACTION_SOURCES.has(event.data.source)
+}
+
+/**
+ * Finds the inactive periods between `start` and `end` (epoch ms). Idle time
+ * before the first and after the last interaction counts too.
+ */
+export function findInactivePeriods(
+    events: RecordingEvent[],
+    range: TimeRange,
+    { threshold = 10000, padding = 1000 }: InactivityOptions = {}
+): TimeRange[] {
+    const periods: TimeRange[] = []
+    let lastActive = range.start
+
+    const addGap = (from: number, to: number) => {
+        if (to - from < threshold) return
+        // No padding at the edges of the recording: there is nothing to see there
+        const start = from === range.start ? from : from + padding
+        const end = to === range.end ? to : to - padding
+        if (end > start) periods.push({ start, end })
+    }
+
+    for (const event of events) {
+        if (!isUserInteraction(event)) continue
+        addGap(lastActive, event.timestamp)
+        lastActive = Math.max(lastActive, event.timestamp)
+    }
+    addGap(lastActive, range.end)
+
+    return periods
+}
+
+/**
+ * Total length of the given (non-overlapping) ranges in ms
+ */
+export function totalLength(ranges: TimeRange[]): number {
+    return ranges.reduce((sum, range) => sum + (range.end - range.start), 0)
+}
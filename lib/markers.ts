@@ -0,0 +1,138 @@
+import { ANNOTATION_EVENT_TAG, type AnnotationEventPayload } from './annotations'
+import { formatConsoleMessage, isConsoleEvent } from './console'
+import { IncrementalSource, isCustom, isIncremental, MouseInteractions, type RecordingEvent } from './events'
+import { getNavigationHref } from './navigation'
+import type { Annotation } from './types'
+
+/**
+ * Points of interest on the timeline, extracted from the event stream
+ */
+
+export type MarkerType = 'click' | 'navigation' | 'input' | 'error' | 'custom' | 'annotation' | 'frustration'
+
+export interface TimelineMarker {
+    /** Stable within one extraction; used as a React key */
+    id: string
+    type: MarkerType
+    /** Epoch ms */
+    timestamp: number
+    /** Epoch ms, for markers that span a time range */
+    endTimestamp?: number
+    label: string
+    detail?: string
+}
+
+export const MARKER_TYPES: Record<MarkerType, { label: string, color: string }> = {
+    click: { label: 'Clicks', color: 'bg-blue-400' },
+    navigation: { label: 'Navigations', color: 'bg-green-400' },
+    input: { label: 'Inputs', color: 'bg-yellow-400' },
+    error: { label: 'Errors', color: 'bg-red-500' },
+    custom: { label: 'Custom', color: 'bg-purple-400' },
+    annotation: { label: 'Notes', color: 'bg-orange-400' },
+    frustration: { label: 'Frustration', color: 'bg-pink-600' },
+}
+
+// Keystrokes into the same field closer than this become one input marker
+const INPUT_MERGE_WINDOW = 2000
+const DETAIL_MAX_LENGTH = 200
+
+function truncate(text: string): string {
+    return text.length > DETAIL_MAX_LENGTH ? `${text.slice(0, DETAIL_MAX_LENGTH)}…` : text
+}
+
+/**
+ * Extracts clicks, page navigations, input changes, console errors and custom
+ * events, in chronological order
+ */
+export function extractMarkers(events: RecordingEvent[]): TimelineMarker[] {
+    const markers: TimelineMarker[] = []
+    let currentHref: string | null = null
+    let lastInput: { marker: TimelineMarker, nodeId: number, timestamp: number } | null = null
+
+    events.forEach((event, index) => {
+        const id = `${index}`
+
+        const href = getNavigationHref(event)
+        if (href !== null) {
+            // Meta events repeat on every full snapshot; only a new href is a navigation
+            if (href !== currentHref) {
+                currentHref = href
+                markers.push({ id, type: 'navigation', timestamp: event.timestamp, label: 'Navigation', detail: href })
+            }
+            return
+        }
+
+        if (isIncremental(event, IncrementalSource.MouseInteraction)) {
+            const { type, id: nodeId } = event.data
+            if (type === MouseInteractions.Click || type === MouseInteractions.DblClick) {
+                const label = type === MouseInteractions.DblClick ? 'Double click' : 'Click'
+                markers.push({ id, type: 'click', timestamp: event.timestamp, label, detail: `Node #${nodeId}` })
+            }
+            return
+        }
+
+        if (isIncremental(event, IncrementalSource.Input)) {
+            const { id: nodeId, text, isChecked } = event.data
+            const detail = truncate(text || (isChecked ? 'Checked' : 'Unchecked'))
+            if (lastInput && lastInput.nodeId === nodeId && event.timestamp - lastInput.timestamp < INPUT_MERGE_WINDOW) {
+                lastInput.marker.detail = detail
+                lastInput.timestamp = event.timestamp
+                return
+            }
+            const marker: TimelineMarker = { id, type: 'input', timestamp: event.timestamp, label: `Input into node #${nodeId}`, detail }
+            lastInput = { marker, nodeId, timestamp: event.timestamp }
+            markers.push(marker)
+            return
+        }
+
+        if (isConsoleEvent(event)) {
+            if (event.data.payload.level === 'error') {
+                markers.push({
+                    id,
+                    type: 'error',
+                    timestamp: event.timestamp,
+                    label: 'Console error',
+                    detail: truncate(formatConsoleMessage(event.data.payload)),
+                })
+            }
+            return
+        }
+
+        if (isCustom(event) && event.data.tag === ANNOTATION_EVENT_TAG) {
+            // A note exported with the session
+            const payload = event.data.payload as AnnotationEventPayload
+            markers.push({
+                id,
+                type: 'annotation',
+                timestamp: event.timestamp,
+                endTimestamp: payload?.endTimestamp,
+                label: 'Note',
+                detail: truncate(String(payload?.text ?? '')),
+            })
+            return
+        }
+
+        if (isCustom(event)) {
+            let detail: string | undefined
+            try {
+                detail = event.data.payload === undefined ? undefined : truncate(JSON.stringify(event.data.payload))
+            } catch {
+                detail = undefined
+            }
+            markers.push({ id, type: 'custom', timestamp: event.timestamp, label: event.data.tag, detail })
+        }
+    })
+
+    return markers
+}
+
+export function annotationMarkers(annotations: Annotation[]): TimelineMarker[] {
+    return annotations.map((annotation) => ({
+        id: `annotation-${annotation.id}`,
+        type: 'annotation',
+        timestamp: annotation.timestamp,
+        endTimestamp: annotation.endTimestamp,
+        label: 'Note',
+        detail: truncate(annotation.text),
+    }))
+}
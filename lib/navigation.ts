@@ -0,0 +1,83 @@
+import { IncrementalSource, isCustom, isIncremental, isMeta, type RecordingEvent } from './events'
+
+/**
+ * Page visits and viewport changes over the course of a recording
+ */
+
+// Custom events PostHog records when a single-page app changes its URL
+const SPA_NAVIGATION_TAGS = new Set(['$pageview', '$url_changed'])
+
+export interface PageVisit {
+    href: string
+    /** Epoch ms of the first frame on this page */
+    timestamp: number
+}
+
+export interface ViewportSize {
+    /** Epoch ms the size took effect */
+    timestamp: number
+    width: number
+    height: number
+}
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop'
+
+/**
+ * The URL an event navigates to: the href of a Meta event or of an SPA
+ * navigation custom event, otherwise null
+ */
+export function getNavigationHref(event: RecordingEvent): string | null {
+    if (isMeta(event)) return event.data.href
+    if (isCustom(event) && SPA_NAVIGATION_TAGS.has(event.data.tag)) {
+        const payload = event.data.payload as { href?: unknown } | null
+        return typeof payload?.href === 'string' ? payload.href : null
+    }
+    return null
+}
+
+/**
+ * Lists the pages visited, in order. Meta events repeat on every full
+ * snapshot, so only a change of href starts a new visit.
+ */
+export function extractPageVisits(events: RecordingEvent[]): PageVisit[] {
+    const visits: PageVisit[] = []
+    for (const event of events) {
+        const href = getNavigationHref(event)
+        if (href !== null && href !== visits[visits.length - 1]?.href) {
+            visits.push({ href, timestamp: event.timestamp })
+        }
+    }
+    return visits
+}
+
+export function extractViewportSizes(events: RecordingEvent[]): ViewportSize[] {
+    const sizes: ViewportSize[] = []
+    for (const event of events) {
+        if (isMeta(event) || isIncremental(event, IncrementalSource.ViewportResize)) {
+            const { width, height } = event.data
+            if (width > 0 && height > 0) sizes.push({ timestamp: event.timestamp, width, height })
+        }
+    }
+    return sizes
+}
+
+/**
+ * Device class by viewport width, using common CSS breakpoints
+ */
+export function deviceType(width: number): DeviceType {
+    if (width < 768) return 'mobile'
+    if (width < 1024) return 'tablet'
+    return 'desktop'
+}
+
+/**
+ * The last item at or before `timestamp` of a chronologically sorted list
+ */
+export function itemAt<T extends { timestamp: number }>(items: T[], timestamp: number): T | undefined {
+    let found: T | undefined
+    for (const item of items) {
+        if (item.timestamp > timestamp) break
+        found = item
+    }
+    return found
+}
@@ -0,0 +1,125 @@
+import { isPlugin, type RecordingEvent } from './events'
+
+/**
+ * Network requests captured by the rrweb network plugin (as recorded by
+ * PostHog or by @rrweb/rrweb-plugin-network-record)
+ */
+
+export const NETWORK_PLUGIN = 'rrweb/network@1'
+
+/** Requests taking at least this long, in ms, count as slow */
+export const SLOW_REQUEST_MS = 1000
+
+type Headers = Record<string, string>
+
+/**
+ * A request as it appears in the plugin payload. PostHog sends performance
+ * entries (`name` is the URL, times are relative to `timeOrigin`), the rrweb
+ * plugin sends `url` and absolute times.
+ */
+interface CapturedRequest {
+    name?: string
+    url?: string
+    method?: string
+    initiatorType?: string
+    status?: number
+    responseStatus?: number
+    timeOrigin?: number
+    timestamp?: number
+    startTime?: number
+    endTime?: number
+    duration?: number
+    requestHeaders?: Headers
+    requestBody?: unknown
+    responseHeaders?: Headers
+    responseBody?: unknown
+}
+
+export interface NetworkRequest {
+    /** Unique within one extraction; used as a React key */
+    id: string
+    url: string
+    method: string
+    status?: number
+    initiatorType?: string
+    /** Epoch ms */
+    start: number
+    /** In ms, when the request finished while recording */
+    duration?: number
+    requestHeaders?: Headers
+    requestBody?: unknown
+    responseHeaders?: Headers
+    responseBody?: unknown
+}
+
+function isNetworkEvent(event: RecordingEvent): event is RecordingEvent & { data: { plugin: string, payload: { requests?: unknown } } } {
+    return isPlugin(event) && event.data.plugin === NETWORK_PLUGIN && !!event.data.payload
+}
+
+function toNetworkRequest(raw: CapturedRequest, eventTimestamp: number, id: string): NetworkRequest | null {
+    const url = raw.url ?? raw.name
+    if (!url) return null
+
+    // Performance entry times are relative to the page's time origin
+    const start = raw.timeOrigin !== undefined && raw.startTime !== undefined
+        ? raw.timeOrigin + raw.startTime
+        : raw.timestamp ?? raw.startTime ?? eventTimestamp
+    const duration = raw.duration ?? (raw.endTime !== undefined && raw.startTime !== undefined
+        ? raw.endTime - raw.startTime
+        : undefined)
+
+    return {
+        id,
+        url,
+        method: (raw.method ?? 'GET').toUpperCase(),
+        status: raw.status ?? raw.responseStatus,
+        initiatorType: raw.initiatorType,
+        start,
+        duration,
+        requestHeaders: raw.requestHeaders,
+        requestBody: raw.requestBody,
+        responseHeaders: raw.responseHeaders,
+        responseBody: raw.responseBody,
+    }
+}
+
+/**
+ * Collects the network requests of a recording, ordered by start time. The
+ * same request reported by several events is kept once.
+ */
+export function extractNetworkRequests(events: RecordingEvent[]): NetworkRequest[] {
+    const requests = new Map<string, NetworkRequest>()
+
+    events.forEach((event, index) => {
+        if (!isNetworkEvent(event) || !Array.isArray(event.data.payload.requests)) return
+
+        event.data.payload.requests.forEach((raw: CapturedRequest, i: number) => {
+            if (!raw || typeof raw !== 'object') return
+            const request = toNetworkRequest(raw, event.timestamp, `${index}-${i}`)
+            if (!request) return
+
+            // Later reports of a request carry more detail (status, bodies)
+            const key = `${request.method} ${request.url} ${Math.round(request.start)}`
+            const previous = requests.get(key)
+            requests.set(key, previous ? { ...previous, ...withoutUndefined(request), id: previous.id } : request)
+        })
+    })
+
+    return [...requests.values()].sort((a, b) => a.start - b.start)
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>
+}
+
+/**
+ * A request answered with a 4xx or 5xx status. Status 0 is not counted: browsers
+ * also report it for cross-origin resources that loaded fine.
+ */
+export function isFailedRequest(request: NetworkRequest): boolean {
+    return request.status !== undefined && request.status >= 400
+}
+
+export function isSlowRequest(request: NetworkRequest, threshold = SLOW_REQUEST_MS): boolean {
+    return request.duration !== undefined && request.duration >= threshold
+}
@@ -0,0 +1,177 @@
+import { IncrementalSource, isFullSnapshot, isIncremental, NodeType, type RecordingEvent, type SerializedNode } from './events'
+
+/**
+ * Tracks the recorded DOM as events are applied: which node each ID refers
+ * to, its tag and attributes, and its parent. Serialized trees only link
+ * parents to children, so this is what lets later events be related to
+ * elements (for masking, selectors and the like).
+ */
+
+export interface NodeInfo {
+    id: number
+    type: NodeType
+    /** Lowercase tag name, for elements */
+    tagName?: string
+    attributes: Record<string, unknown>
+    parentId: number | null
+}
+
+export class NodeIndex {
+    private nodes = new Map<number, NodeInfo>()
+    private childIds = new Map<number, Set<number>>()
+
+    get(id: number): NodeInfo | undefined {
+        return this.nodes.get(id)
+    }
+
+    /**
+     * IDs of a node's direct children
+     */
+    children(id: number): number[] {
+        return [...(this.childIds.get(id) ?? [])]
+    }
+
+    /**
+     * IDs of a node and everything inside it, parents before children
+     */
+    subtree(id: number): number[] {
+        const result: number[] = []
+        const stack = [id]
+        while (stack.length > 0) {
+            const next = stack.pop()!
+            if (!this.nodes.has(next)) continue
+            result.push(next)
+            stack.push(...(this.childIds.get(next) ?? []))
+        }
+        return result
+    }
+
+    /**
+     * Element ancestors of a node, nearest first
+     */
+    ancestors(id: number): NodeInfo[] {
+        const result: NodeInfo[] = []
+        let parentId = this.nodes.get(id)?.parentId ?? null
+        while (parentId !== null) {
+            const parent = this.nodes.get(parentId)
+            if (!parent) break
+            if (parent.type === NodeType.Element) result.push(parent)
+            parentId = parent.parentId
+        }
+        return result
+    }
+
+    /**
+     * Registers a single serialized node (not its children)
+     */
+    register(node: SerializedNode, parentId: number | null): NodeInfo {
+        const info: NodeInfo = {
+            id: node.id,
+            type: node.type,
+            tagName: node.type === NodeType.Element ? node.tagName.toLowerCase() : undefined,
+            attributes: node.type === NodeType.Element ? { ...node.attributes } : {},
+            parentId,
+        }
+        this.detach(node.id)
+        this.nodes.set(node.id, info)
+        if (parentId !== null) {
+            let siblings = this.childIds.get(parentId)
+            if (!siblings) this.childIds.set(parentId, siblings = new Set())
+            siblings.add(node.id)
+        }
+        return info
+    }
+
+    /**
+     * Registers a serialized node and its subtree
+     */
+    addTree(node: SerializedNode, parentId: number | null) {
+        this.register(node, parentId)
+        if ('childNodes' in node) {
+            for (const child of node.childNodes) {
+                this.addTree(child, node.id)
+            }
+        }
+    }
+
+    /**
+     * Removes a node along with its subtree
+     */
+    remove(id: number) {
+        const ids = this.subtree(id)
+        this.detach(id)
+        for (const removed of ids) {
+            this.nodes.delete(removed)
+            this.childIds.delete(removed)
+        }
+    }
+
+    clear() {
+        this.nodes.clear()
+        this.childIds.clear()
+    }
+
+    private detach(id: number) {
+        const parentId = this.nodes.get(id)?.parentId
+        if (parentId !== undefined && parentId !== null) this.childIds.get(parentId)?.delete(id)
+    }
+
+    /**
+     * Applies attribute changes from a mutation; null removes an attribute
+     */
+    updateAttributes(id: number, attributes: Record<string, unknown>): NodeInfo | undefined {
+        const info = this.nodes.get(id)
+        if (!info) return undefined
+        for (const [name, value] of Object.entries(attributes)) {
+            if (value === null) delete info.attributes[name]
+            else info.attributes[name] = value
+        }
+        return info
+    }
+
+    /**
+     * Updates the index with a FullSnapshot or mutation event
+     */
+    apply(event: RecordingEvent) {
+        if (isFullSnapshot(event)) {
+            this.clear()
+            this.addTree(event.data.node, null)
+            return
+        }
+        if (!isIncremental(event, IncrementalSource.Mutation)) return
+
+        const { adds, removes, attributes } = event.data
+        for (const { id } of removes) {
+            this.remove(id)
+        }
+        for (const { parentId, node } of adds) {
+            this.addTree(node, parentId)
+        }
+        for (const mutation of attributes) {
+            this.updateAttributes(mutation.id, mutation.attributes)
+        }
+    }
+}
+
+/**
+ * IDs of the nodes an incremental event touches: for mutations the added,
+ * removed, changed nodes and their parents; otherwise the target of the
+ * interaction. Full snapshots are not listed node by node.
+ */
+export function eventNodeIds(event: RecordingEvent): number[] {
+    if (!isIncremental(event)) return []
+
+    const ids = new Set<number>()
+    if (isIncremental(event, IncrementalSource.Mutation)) {
+        const { adds, removes, attributes, texts } = event.data
+        for (const { parentId, node } of adds) ids.add(node.id).add(parentId)
+        for (const { parentId, id } of removes) ids.add(id).add(parentId)
+        for (const { id } of attributes) ids.add(id)
+        for (const { id } of texts) ids.add(id)
+    } else if ('positions' in event.data) {
+        for (const { id } of event.data.positions) ids.add(id)
+    } else if ('id' in event.data && typeof event.data.id === 'number') {
+        ids.add(event.data.id)
+    }
+    return [...ids]
+}
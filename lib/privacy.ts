@@ -0,0 +1,295 @@
+import {
+    EventType,
+    IncrementalSource,
+    isIncremental,
+    NodeType,
+    type MutationEvent,
+    type RecordingEvent,
+    type SerializedNode,
+} from './events'
+import { NodeIndex, type NodeInfo } from './nodes'
+import { matchesSelector, parseSelector, type Selector } from './selectors'
+
+/**
+ * Playback-time redaction of sensitive data, for recordings captured before
+ * masking was configured in the SDK.
+ *
+ * Elements matched by a selector or attribute rule have their text and input
+ * values replaced with asterisks, along with everything inside them. Pattern
+ * rules mask matching text (emails, card numbers) anywhere in the page.
+ */
+
+export type PrivacyRule =
+    | { type: 'selector', selector: string }
+    | { type: 'attribute', attribute: string, value?: string }
+    | { type: 'pattern', name: string, pattern: string, flags?: string, check?: PatternCheck }
+
+/**
+ * Extra test a pattern match must pass before it is masked.
+ * `luhn`: the digits carry a valid card checksum.
+ */
+export type PatternCheck = 'luhn'
+
+const PATTERN_CHECKS: Record<PatternCheck, (match: string) => boolean> = {
+    luhn: passesLuhn,
+}
+
+export const DEFAULT_PRIVACY_RULES: PrivacyRule[] = [
+    { type: 'selector', selector: 'input[type=password]' },
+    { type: 'attribute', attribute: 'data-private' },
+    { type: 'attribute', attribute: 'autocomplete', value: 'cc-number' },
+    { type: 'attribute', attribute: 'autocomplete', value: 'cc-csc' },
+    { type: 'pattern', name: 'email', pattern: '[A-Z0-9._%+-]+@[A-Z0-9.-]+\\.[A-Z]{2,}', flags: 'i' },
+    // Card numbers start with 2-6; the checksum keeps other long numbers (IDs, timestamps) readable
+    { type: 'pattern', name: 'card number', pattern: '\\b[2-6](?:[ -]?\\d){12,18}\\b', check: 'luhn' },
+]
+
+// Attributes that can hold user data, checked against pattern rules
+const TEXT_ATTRIBUTES = ['value', 'placeholder', 'title', 'alt', 'aria-label']
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Validates rules from configuration; throws with a readable message
+ */
+export function parsePrivacyRules(value: unknown): PrivacyRule[] {
+    if (!Array.isArray(value)) throw new Error('Privacy rules must be an array')
+
+    return value.map((rule, index): PrivacyRule => {
+        if (!isRecord(rule)) throw new Error(`Rule ${index} is not an object`)
+        switch (rule.type) {
+            case 'selector':
+                if (typeof rule.selector !== 'string') throw new Error(`Rule ${index} has no selector`)
+                parseSelector(rule.selector)
+                return { type: 'selector', selector: rule.selector }
+            case 'attribute':
+                if (typeof rule.attribute !== 'string' || !rule.attribute) throw new Error(`Rule ${index} has no attribute`)
+                if (rule.value !== undefined && typeof rule.value !== 'string') throw new Error(`Rule ${index} has an invalid value`)
+                return { type: 'attribute', attribute: rule.attribute.toLowerCase(), value: rule.value }
+            case 'pattern': {
+                if (typeof rule.pattern !== 'string' || !rule.pattern) throw new Error(`Rule ${index} has no pattern`)
+                const flags = typeof rule.flags === 'string' ? rule.flags : undefined
+                try {
+                    new RegExp(rule.pattern, flags)
+                } catch (error) {
+                    throw new Error(`Rule ${index} has an invalid pattern: ${error instanceof Error ? error.message : error}`)
+                }
+                if (rule.check !== undefined && !Object.hasOwn(PATTERN_CHECKS, String(rule.check))) {
+                    throw new Error(`Rule ${index} has unknown check ${JSON.stringify(rule.check)}`)
+                }
+                const name = typeof rule.name === 'string' ? rule.name : `pattern ${index}`
+                const check = rule.check as PatternCheck | undefined
+                return { type: 'pattern', name, pattern: rule.pattern, flags, ...(check && { check }) }
+            }
+            default:
+                throw new Error(`Rule ${index} has unknown type ${JSON.stringify(rule.type)}`)
+        }
+    })
+}
+
+/**
+ * Luhn checksum over the digits of `text`, ignoring separators
+ */
+function passesLuhn(text: string): boolean {
+    const digits = text.replace(/\D/g, '')
+    let sum = 0
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i])
+        if (i % 2 === 1) {
+            digit *= 2
+            if (digit > 9) digit -= 9
+        }
+        sum += digit
+    }
+    return digits.length > 0 && sum % 10 === 0
+}
+
+/**
+ * Replaces every non-whitespace character, keeping the layout of the text
+ */
+function maskText(text: string): string {
+    return text.replace(/\S/g, '*')
+}
+
+/**
+ * Short hash of a rule set, so events masked with other rules are never reused
+ */
+export function rulesFingerprint(rules: PrivacyRule[]): string {
+    const text = JSON.stringify(rules)
+    // FNV-1a
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return (hash >>> 0).toString(36)
+}
+
+/**
+ * Redacts a recording event by event. Stateful: it follows the DOM through
+ * full snapshots and mutations, so events must be passed in order.
+ */
+export class Redactor {
+    /** Number of text nodes, attributes and input values masked so far */
+    redactedCount = 0
+    /** Identifies the rules this redactor applies */
+    readonly fingerprint: string
+
+    private index = new NodeIndex()
+    // Nodes whose text is masked entirely: matched elements and everything inside them
+    private masked = new Set<number>()
+    private selectors: Selector[]
+    private attributeRules: Array<{ attribute: string, value?: string }>
+    private patterns: Array<{ regex: RegExp, check?: (match: string) => boolean }>
+
+    constructor(rules: PrivacyRule[]) {
+        this.fingerprint = rulesFingerprint(rules)
+        this.selectors = rules.flatMap((rule) => (rule.type === 'selector' ? [parseSelector(rule.selector)] : []))
+        this.attributeRules = rules.flatMap((rule) => (rule.type === 'attribute' ? [rule] : []))
+        this.patterns = rules.flatMap((rule) => {
+            if (rule.type !== 'pattern') return []
+            const flags = rule.flags ?? ''
+            const regex = new RegExp(rule.pattern, flags.includes('g') ? flags : `${flags}g`)
+            return [{ regex, check: rule.check && PATTERN_CHECKS[rule.check] }]
+        })
+    }
+
+    redactAll(events: RecordingEvent[]): RecordingEvent[] {
+        return events.map((event) => this.redact(event))
+    }
+
+    /**
+     * Returns the event with sensitive data masked; unchanged events are
+     * returned as they are, changed ones are copied
+     */
+    redact(event: RecordingEvent): RecordingEvent {
+        if (event.type === EventType.FullSnapshot) {
+            this.index.clear()
+            this.masked.clear()
+            return { ...event, data: { ...event.data, node: this.redactTree(event.data.node, null) } }
+        }
+        if (isIncremental(event, IncrementalSource.Mutation)) {
+            return this.redactMutation(event)
+        }
+        if (isIncremental(event, IncrementalSource.Input)) {
+            const text = this.redactValue(event.data.text, this.masked.has(event.data.id))
+            return text === event.data.text ? event : { ...event, data: { ...event.data, text } }
+        }
+        return event
+    }
+
+    private redactValue(value: string, masked: boolean): string {
+        const result = masked
+            ? maskText(value)
+            : this.patterns.reduce(
+                (text, { regex, check }) => text.replace(regex, (match) => (check && !check(match) ? match : maskText(match))),
+                value
+            )
+        if (result !== value) this.redactedCount++
+        return result
+    }
+
+    private matchesRules(element: NodeInfo): boolean {
+        const matchesAttribute = this.attributeRules.some(({ attribute, value }) => {
+            const actual = element.attributes[attribute]
+            return actual !== undefined && actual !== null && (value === undefined || String(actual) === value)
+        })
+        if (matchesAttribute) return true
+        if (this.selectors.length === 0) return false
+
+        const ancestors = this.index.ancestors(element.id)
+        return this.selectors.some((selector) => matchesSelector(selector, element, ancestors))
+    }
+
+    private redactAttributes<T extends Record<string, unknown>>(attributes: T, masked: boolean): T {
+        let result = attributes
+        for (const name of TEXT_ATTRIBUTES) {
+            const value = attributes[name]
+            if (typeof value !== 'string' || !value) continue
+            // Placeholders and labels are part of the page, not user data
+            const redacted = this.redactValue(value, masked && name === 'value')
+            if (redacted !== value) result = { ...result, [name]: redacted }
+        }
+        return result
+    }
+
+    private redactTree(node: SerializedNode, parentId: number | null): SerializedNode {
+        const info = this.index.register(node, parentId)
+        const masked = (parentId !== null && this.masked.has(parentId)) ||
+            (node.type === NodeType.Element && this.matchesRules(info))
+        if (masked) this.masked.add(node.id)
+
+        switch (node.type) {
+            case NodeType.Text: {
+                // Stylesheet text is never user data
+                if (node.isStyle) return node
+                const textContent = this.redactValue(node.textContent, masked)
+                return textContent === node.textContent ? node : { ...node, textContent }
+            }
+            case NodeType.Element: {
+                const attributes = this.redactAttributes(node.attributes, masked)
+                const childNodes = node.childNodes.map((child) => this.redactTree(child, node.id))
+                return { ...node, attributes, childNodes }
+            }
+            case NodeType.Document:
+                return { ...node, childNodes: node.childNodes.map((child) => this.redactTree(child, node.id)) }
+            default:
+                return node
+        }
+    }
+
+    /**
+     * Recomputes whether a node and its subtree are masked after its attributes
+     * changed. Selectors can match on ancestors, so with selector rules the
+     * whole subtree is checked; otherwise only as far as the state changes.
+     */
+    private updateMasking(id: number) {
+        const info = this.index.get(id)
+        if (!info) return
+        const parentMasked = info.parentId !== null && this.masked.has(info.parentId)
+        const masked = parentMasked || (info.type === NodeType.Element && this.matchesRules(info))
+        if (masked === this.masked.has(id) && this.selectors.length === 0) return
+
+        if (masked) this.masked.add(id)
+        else this.masked.delete(id)
+        for (const child of this.index.children(id)) {
+            this.updateMasking(child)
+        }
+    }
+
+    private redactMutation(event: MutationEvent): RecordingEvent {
+        const { removes, adds, texts, attributes } = event.data
+
+        for (const { id } of removes) {
+            for (const removed of this.index.subtree(id)) this.masked.delete(removed)
+            this.index.remove(id)
+        }
+
+        const redactedAttributes = attributes.map((mutation) => {
+            const info = this.index.updateAttributes(mutation.id, mutation.attributes)
+            // An attribute change can make an element match a rule (or stop matching)
+            if (info?.type === NodeType.Element) this.updateMasking(info.id)
+            const redacted = this.redactAttributes(mutation.attributes, this.masked.has(mutation.id))
+            return redacted === mutation.attributes ? mutation : { ...mutation, attributes: redacted }
+        })
+
+        // After attribute changes, so nodes added under a newly matched element are masked too
+        const redactedAdds = adds.map((add) => {
+            const node = this.redactTree(add.node, add.parentId)
+            return node === add.node ? add : { ...add, node }
+        })
+
+        const redactedTexts = texts.map((text) => {
+            if (text.value === null) return text
+            const value = this.redactValue(text.value, this.masked.has(text.id))
+            return value === text.value ? text : { ...text, value }
+        })
+
+        return {
+            ...event,
+            data: { ...event.data, adds: redactedAdds, texts: redactedTexts, attributes: redactedAttributes },
+        }
+    }
+}
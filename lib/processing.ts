@@ -0,0 +1,370 @@
+import pako from 'pako'
+import { config } from './config'
+import { sanitizeDeclarations, sanitizeStylesheet, type CssDiagnostic, type CssFix, type CssSanitizeOptions } from './css'
+import {
+    EventType,
+    IncrementalSource,
+    isIncremental,
+    isMeta,
+    NodeType,
+    normalizeEvent,
+    validateEvent,
+    type EventIssue,
+    type EventValidationResult,
+    type IngestedEvent,
+    type RecordingEvent,
+    type SerializedNode,
+} from './events'
+import type { Diagnostic } from './diagnostics'
+
+/**
+ * Snapshot processing pipeline: parsing, tuple extraction, decompression and
+ * validation. Pure and DOM-free so it can run inside the snapshot worker.
+ */
+
+/**
+ * Called with a completion percentage (0-100) while a blob is processed
+ */
+export type ProgressCallback = (percent: number) => void
+
+// How often (in events) processing reports progress
+const PROGRESS_INTERVAL = 500
+
+/**
+ * Parses a snapshot response body, which is either JSON or NDJSON. NDJSON
+ * lines that do not parse are skipped and reported in `diagnostics`.
+ */
+export function parseSnapshotText(text: string, diagnostics: Diagnostic[] = []): unknown {
+    try {
+        return JSON.parse(text)
+    } catch {
+        // Try NDJSON format
+        const lines = text.split('\n').filter(line => line.trim().length > 0)
+        const parsed: unknown[] = []
+        let firstFailure: string | null = null
+
+        for (const line of lines) {
+            try {
+                parsed.push(JSON.parse(line))
+            } catch {
+                firstFailure ??= line.substring(0, 100)
+            }
+        }
+
+        if (parsed.length > 0) {
+            if (firstFailure !== null) {
+                diagnostics.push({
+                    level: 'warning',
+                    message: `Skipped ${lines.length - parsed.length} line(s) that are not valid JSON, starting with: ${firstFailure}`,
+                })
+            }
+            return parsed
+        }
+
+        throw new Error(`Failed to parse response as JSON`)
+    }
+}
+
+/**
+ * Inflates a gzip string (one char per byte, as PostHog sends it) and parses the JSON inside
+ */
+function inflateJson(compressed: string): unknown {
+    const compressedArray = new Uint8Array(compressed.length)
+    for (let i = 0; i < compressed.length; i++) {
+        compressedArray[i] = compressed.charCodeAt(i) & 0xFF
+    }
+    const decompressed = pako.inflate(compressedArray, { to: 'string' })
+    return JSON.parse(decompressed)
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Decompresses a compressed mutation field using pako
+ */
+function decompressField(compressed: string, onError: (message: string) => void): unknown[] {
+    try {
+        const parsed = inflateJson(compressed)
+        return Array.isArray(parsed) ? parsed : []
+    } catch (e) {
+        onError(errorMessage(e))
+        return []
+    }
+}
+
+/**
+ * Checks if a string is compressed (gzip format)
+ */
+function isCompressed(str: string): boolean {
+    return str.length > 1 && str.charCodeAt(0) === 0x1F && str.charCodeAt(1) === 0x8B
+}
+
+/**
+ * Processes and decompresses mutation events (type 3). Fields that fail to
+ * decompress are emptied and reported in `diagnostics`.
+ */
+export function processMutationEvent(event: IngestedEvent, diagnostics: Diagnostic[] = []): IngestedEvent {
+    if (event.type !== EventType.IncrementalSnapshot || !event.data || typeof event.data !== 'object') {
+        return event
+    }
+
+    const data = { ...event.data } as Record<string, unknown>
+
+    // Decompress removes, adds, texts, attributes if they're compressed strings
+    const fields = ['removes', 'adds', 'texts', 'attributes'] as const
+    
+    for (const field of fields) {
+        const value = data[field]
+        if (value && typeof value === 'string') {
+            if (isCompressed(value)) {
+                data[field] = decompressField(value, (message) => diagnostics.push({
+                    level: 'warning',
+                    message: `Decompression failed for mutation ${field}, the changes are dropped: ${message}`,
+                    timestamp: event.timestamp,
+                }))
+            } else {
+                // Try parsing as JSON
+                try {
+                    data[field] = JSON.parse(value)
+                } catch {
+                    // Leave as-is if parsing fails
+                }
+            }
+        }
+        
+        // Ensure it's an array
+        if (!Array.isArray(data[field])) {
+            data[field] = []
+        }
+    }
+
+    return { ...event, data }
+}
+
+/**
+ * Decompresses FullSnapshot (type 2) data if PostHog sent it compressed
+ */
+function processFullSnapshotEvent(event: IngestedEvent, diagnostics: Diagnostic[]): IngestedEvent {
+    if (typeof event.data !== 'string' || !isCompressed(event.data)) {
+        return event
+    }
+
+    try {
+        // FullSnapshot data decompression - returns an object, not array
+        const parsed = inflateJson(event.data)
+        if (parsed && typeof parsed === 'object') {
+            return { ...event, data: parsed }
+        }
+        diagnostics.push({ level: 'error', message: 'Decompressed FullSnapshot data is not an object', timestamp: event.timestamp })
+    } catch (e) {
+        diagnostics.push({ level: 'error', message: `Decompression failed for a FullSnapshot: ${errorMessage(e)}`, timestamp: event.timestamp })
+    }
+    return event
+}
+
+/**
+ * Sanitizes the stylesheets and inline styles of a serialized subtree,
+ * copying only the nodes that change
+ */
+function sanitizeNodeCss(
+    node: SerializedNode,
+    options: CssSanitizeOptions,
+    report: (nodeId: number, target: CssDiagnostic['target'], fixes: CssFix[]) => void
+): SerializedNode {
+    if (node.type === NodeType.Text) {
+        if (!node.isStyle || !node.textContent) return node
+        const { css, fixes } = sanitizeStylesheet(node.textContent, options)
+        if (fixes.length === 0) return node
+        report(node.id, 'stylesheet', fixes)
+        return { ...node, textContent: css }
+    }
+    if (node.type !== NodeType.Element && node.type !== NodeType.Document) {
+        return node
+    }
+
+    let result = node
+    if (node.type === NodeType.Element) {
+        const { _cssText: cssText, style } = node.attributes
+        let attributes = node.attributes
+        if (typeof cssText === 'string' && cssText) {
+            const { css, fixes } = sanitizeStylesheet(cssText, options)
+            if (fixes.length > 0) {
+                report(node.id, 'stylesheet', fixes)
+                attributes = { ...attributes, _cssText: css }
+            }
+        }
+        if (typeof style === 'string' && style) {
+            const { css, fixes } = sanitizeDeclarations(style, options)
+            if (fixes.length > 0) {
+                report(node.id, 'style', fixes)
+                attributes = { ...attributes, style: css }
+            }
+        }
+        if (attributes !== node.attributes) result = { ...node, attributes }
+    }
+
+    const childNodes = node.childNodes.map((child) => sanitizeNodeCss(child, options, report))
+    return childNodes.some((child, i) => child !== node.childNodes[i]) ? { ...result, childNodes } : result
+}
+
+/**
+ * Repairs the CSS of full snapshots and of nodes and styles added by
+ * mutations. `baseUrl` is the page the event was recorded on.
+ */
+function sanitizeEventCss(event: RecordingEvent, baseUrl: string | undefined, diagnostics: CssDiagnostic[]): RecordingEvent {
+    const options: CssSanitizeOptions = { baseUrl, proxyUrl: config.assetProxyUrl || undefined }
+    const report = (nodeId: number, target: CssDiagnostic['target'], fixes: CssFix[]) => {
+        for (const fix of fixes) {
+            diagnostics.push({ ...fix, nodeId, target, timestamp: event.timestamp })
+        }
+    }
+
+    if (event.type === EventType.FullSnapshot) {
+        const node = sanitizeNodeCss(event.data.node, options, report)
+        return node === event.data.node ? event : { ...event, data: { ...event.data, node } }
+    }
+    if (!isIncremental(event, IncrementalSource.Mutation)) {
+        return event
+    }
+
+    let changed = false
+    const adds = event.data.adds.map((add) => {
+        const node = sanitizeNodeCss(add.node, options, report)
+        if (node === add.node) return add
+        changed = true
+        return { ...add, node }
+    })
+    const attributes = event.data.attributes.map((mutation) => {
+        const { _cssText: cssText, style } = mutation.attributes
+        let next = mutation.attributes
+        if (typeof cssText === 'string' && cssText) {
+            const { css, fixes } = sanitizeStylesheet(cssText, options)
+            if (fixes.length > 0) {
+                report(mutation.id, 'stylesheet', fixes)
+                next = { ...next, _cssText: css }
+            }
+        }
+        if (typeof style === 'string' && style) {
+            const { css, fixes } = sanitizeDeclarations(style, options)
+            if (fixes.length > 0) {
+                report(mutation.id, 'style', fixes)
+                next = { ...next, style: css }
+            }
+        }
+        if (next === mutation.attributes) return mutation
+        changed = true
+        return { ...mutation, attributes: next }
+    })
+
+    return changed ? { ...event, data: { ...event.data, adds, attributes } } : event
+}
+
+/**
+ * Flattens the payload of one snapshot source into a list of items
+ * (either `[windowId, event]` tuples or plain events)
+ */
+export function flattenSnapshotData(data: unknown): unknown[] {
+    if (Array.isArray(data)) {
+        return data
+    }
+    if (data && typeof data === 'object') {
+        const record = data as { events?: unknown, data?: unknown }
+        if (Array.isArray(record.events)) return record.events
+        if (Array.isArray(record.data)) return record.data
+    }
+    return [data]
+}
+
+/**
+ * Turns raw snapshot items into events rrweb can replay: extracts events from
+ * PostHog tuples, normalizes types, decompresses payloads and validates the
+ * result. Anything malformed is reported in `issues` instead of being passed on.
+ */
+export function processSnapshotData(
+    snapshotData: unknown[],
+    onProgress?: ProgressCallback,
+    diagnostics: Diagnostic[] = []
+): EventValidationResult {
+    // CRITICAL: Events come as tuples [windowId, eventObject]
+    // Extract the actual event objects from index [1] - optimized batch processing
+    const extractedEvents: unknown[] = []
+    for (let i = 0; i < snapshotData.length; i++) {
+        const item = snapshotData[i]
+        if (!item) continue
+        
+        if (Array.isArray(item) && item.length >= 2) {
+            // It's a tuple [windowId, eventObject]
+            extractedEvents.push(item[1])
+        } else {
+            // Already an event object
+            extractedEvents.push(item)
+        }
+    }
+
+    // Process events: normalize, decompress and validate
+    // Use for loop instead of map for better performance and progress tracking
+    const events: RecordingEvent[] = []
+    const issues: EventIssue[] = []
+    const css: CssDiagnostic[] = []
+    // Page the following events were recorded on, for resolving relative asset URLs
+    let baseUrl: string | undefined
+    const startTime = Date.now()
+    
+    for (let i = 0; i < extractedEvents.length; i++) {
+        const normalized = normalizeEvent(extractedEvents[i])
+        if ('reason' in normalized) {
+            issues.push({ index: i, reason: normalized.reason })
+            continue
+        }
+
+        let event = normalized.event
+        if (event.type === EventType.IncrementalSnapshot) {
+            // Decompress compressed mutation fields
+            event = processMutationEvent(event, diagnostics)
+        } else if (event.type === EventType.FullSnapshot) {
+            event = processFullSnapshotEvent(event, diagnostics)
+        }
+
+        const validated = validateEvent(event)
+        if ('reason' in validated) {
+            issues.push({ index: i, reason: validated.reason })
+            continue
+        }
+
+        for (const warning of validated.warnings ?? []) {
+            diagnostics.push({ level: 'warning', message: `${warning} in event #${i}`, timestamp: event.timestamp })
+        }
+
+        if (isMeta(validated.event)) {
+            baseUrl = validated.event.data.href
+        }
+        events.push(sanitizeEventCss(validated.event, baseUrl, css))
+
+        if (onProgress && i > 0 && i % PROGRESS_INTERVAL === 0) {
+            onProgress(Math.round((i / extractedEvents.length) * 100))
+        }
+    }
+    onProgress?.(100)
+    
+    diagnostics.push({
+        level: 'info',
+        message: `Processed ${events.length} of ${extractedEvents.length} events in ${Date.now() - startTime}ms`,
+    })
+    if (issues.length > 0) {
+        diagnostics.push({ level: 'warning', message: `Dropped ${issues.length} malformed event(s), e.g. #${issues[0].index}: ${issues[0].reason}` })
+    }
+
+    return { events, issues, css, diagnostics }
+}
+
+
+/**
+ * Decodes, parses and processes one snapshot blob as downloaded from our route handler
+ */
+export function processSnapshotBuffer(buffer: ArrayBuffer, onProgress?: ProgressCallback): EventValidationResult {
+    const text = new TextDecoder().decode(buffer)
+    const diagnostics: Diagnostic[] = []
+    return processSnapshotData(flattenSnapshotData(parseSnapshotText(text, diagnostics)), onProgress, diagnostics)
+}
@@ -0,0 +1,20 @@
+import type { TimeRange } from './types'
+
+/**
+ * Sorts ranges and merges those that overlap or are less than `tolerance` ms apart
+ */
+export function mergeRanges(ranges: TimeRange[], tolerance = 0): TimeRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start)
+    const merged: TimeRange[] = []
+
+    for (const range of sorted) {
+        const last = merged[merged.length - 1]
+        if (last && range.start <= last.end + tolerance) {
+            last.end = Math.max(last.end, range.end)
+        } else {
+            merged.push({ ...range })
+        }
+    }
+
+    return merged
+}
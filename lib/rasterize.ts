@@ -0,0 +1,85 @@
+/**
+ * Draws a same-origin document (such as the page a paused rrweb Replayer
+ * rebuilt in its iframe) as an image, so it can be composited on a canvas.
+ *
+ * The document is cloned into an SVG `<foreignObject>`. SVG images cannot
+ * load anything external, so stylesheets are inlined from the CSSOM (which
+ * also picks up rules rrweb inserted with `insertRule`) and loaded images are
+ * inlined as data URLs where the browser lets us read them. Images it does
+ * not are left out.
+ */
+
+/**
+ * Serializes a stylesheet's current rules, or null if they cannot be read
+ */
+function sheetText(sheet: CSSStyleSheet | null): string | null {
+    if (!sheet) return null
+    try {
+        return Array.from(sheet.cssRules, (rule) => rule.cssText).join('\n')
+    } catch {
+        // Cross-origin sheet
+        return null
+    }
+}
+
+function imageDataUrl(image: HTMLImageElement): string | null {
+    if (!image.complete || image.naturalWidth === 0) return null
+    try {
+        const canvas = document.createElement('canvas')
+        canvas.width = image.naturalWidth
+        canvas.height = image.naturalHeight
+        canvas.getContext('2d')?.drawImage(image, 0, 0)
+        return canvas.toDataURL()
+    } catch {
+        // Cross-origin image without CORS: reading it back is not allowed
+        return null
+    }
+}
+
+/**
+ * Copy of the document's root with styles and images inlined and scripts removed
+ */
+function inlineDocument(doc: Document): HTMLElement {
+    const clone = doc.documentElement.cloneNode(true) as HTMLElement
+
+    // cloneNode keeps document order, so live and cloned elements pair up by index
+    const liveStyles = doc.querySelectorAll('style')
+    clone.querySelectorAll('style').forEach((style, i) => {
+        const text = sheetText(liveStyles[i]?.sheet ?? null)
+        if (text !== null) style.textContent = text
+    })
+
+    const liveLinks = doc.querySelectorAll<HTMLLinkElement>('link[rel~="stylesheet"]')
+    clone.querySelectorAll('link[rel~="stylesheet"]').forEach((link, i) => {
+        const text = sheetText(liveLinks[i]?.sheet ?? null)
+        if (text === null) return
+        const style = doc.createElement('style')
+        style.textContent = text
+        link.replaceWith(style)
+    })
+
+    const liveImages = doc.querySelectorAll('img')
+    clone.querySelectorAll('img').forEach((image, i) => {
+        const src = liveImages[i] ? imageDataUrl(liveImages[i]) : null
+        image.removeAttribute('srcset')
+        if (src) image.setAttribute('src', src)
+        else image.removeAttribute('src')
+    })
+
+    clone.querySelectorAll('script').forEach((script) => script.remove())
+    return clone
+}
+
+/**
+ * Renders `doc` at `width` × `height` CSS pixels into an image
+ */
+export async function rasterizeDocument(doc: Document, width: number, height: number): Promise<HTMLImageElement> {
+    const markup = new XMLSerializer().serializeToString(inlineDocument(doc))
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        `<foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`
+
+    const image = new Image(width, height)
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+    await image.decode()
+    return image
+}
@@ -0,0 +1,61 @@
+/**
+ * "Reviewed" marks for sessions, kept in localStorage so they survive reloads
+ * and are shared between tabs. Shaped for useSyncExternalStore.
+ */
+
+const STORAGE_KEY = 'rrweb-player-reviewed'
+// Fired in this tab on changes; other tabs get the native `storage` event
+const CHANGE_EVENT = 'rrweb-player-reviewed-change'
+
+export function reviewKey(sessionId: string, projectId?: string): string {
+    return `${projectId || 'default'}:${sessionId}`
+}
+
+/**
+ * Raw stored value; a string, so useSyncExternalStore can compare snapshots
+ */
+export function getReviewedSnapshot(): string {
+    try {
+        return localStorage.getItem(STORAGE_KEY) ?? '[]'
+    } catch {
+        return '[]'
+    }
+}
+
+export function getReviewedServerSnapshot(): string {
+    return '[]'
+}
+
+export function parseReviewed(snapshot: string): Set<string> {
+    try {
+        const keys = JSON.parse(snapshot)
+        return new Set(Array.isArray(keys) ? keys.filter((key): key is string => typeof key === 'string') : [])
+    } catch {
+        return new Set()
+    }
+}
+
+export function subscribeReviewed(onChange: () => void): () => void {
+    const onStorage = (e: StorageEvent) => {
+        if (e.key === STORAGE_KEY) onChange()
+    }
+    window.addEventListener('storage', onStorage)
+    window.addEventListener(CHANGE_EVENT, onChange)
+    return () => {
+        window.removeEventListener('storage', onStorage)
+        window.removeEventListener(CHANGE_EVENT, onChange)
+    }
+}
+
+export function setReviewed(key: string, reviewed: boolean) {
+    const keys = parseReviewed(getReviewedSnapshot())
+    if (reviewed) keys.add(key)
+    else keys.delete(key)
+
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([...keys]))
+    } catch (e) {
+        console.warn('Failed to save reviewed sessions:', e)
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT))
+}
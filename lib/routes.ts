@@ -0,0 +1,130 @@
+import { parseDuration } from './format'
+import type { RecordingFilters } from './types'
+
+/**
+ * Helpers for building and validating player URLs
+ */
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const PROJECT_ID_PATTERN = /^\d+$/
+
+/**
+ * PostHog session IDs are UUIDs (v7 for recent SDKs)
+ */
+export function isValidSessionId(sessionId: string | undefined | null): sessionId is string {
+    return !!sessionId && SESSION_ID_PATTERN.test(sessionId)
+}
+
+export function isValidProjectId(projectId: string | undefined | null): projectId is string {
+    return !!projectId && PROJECT_ID_PATTERN.test(projectId)
+}
+
+export interface SessionLinkOptions {
+    projectId?: string
+    /** Time to start playback at, in ms from the start of the recording */
+    time?: number
+}
+
+/**
+ * Builds the player URL for a session, e.g. `/sessions/<id>?projectId=123&t=222`
+ */
+export function sessionPath(sessionId: string, options: SessionLinkOptions = {}): string {
+    const params = new URLSearchParams()
+    if (options.projectId) params.set('projectId', options.projectId)
+    if (options.time !== undefined && options.time > 0) params.set('t', String(Math.floor(options.time / 1000)))
+
+    const query = params.toString()
+    return `/sessions/${encodeURIComponent(sessionId)}${query ? `?${query}` : ''}`
+}
+
+/**
+ * Builds the URL of a playlist of sessions, e.g. `/playlist?ids=<id>,<id>&projectId=123`
+ */
+export function playlistPath(sessionIds: string[], options: Pick<SessionLinkOptions, 'projectId'> = {}): string {
+    const params = new URLSearchParams({ ids: sessionIds.join(',') })
+    if (options.projectId) params.set('projectId', options.projectId)
+    return `/playlist?${params.toString().replace(/%2C/g, ',')}`
+}
+
+/**
+ * Builds the URL of the side-by-side view of two sessions, e.g. `/compare?a=<id>&b=<id>`
+ */
+export function comparePath(sessionA: string, sessionB: string, options: Pick<SessionLinkOptions, 'projectId'> = {}): string {
+    const params = new URLSearchParams({ a: sessionA, b: sessionB })
+    if (options.projectId) params.set('projectId', options.projectId)
+    return `/compare?${params}`
+}
+
+/**
+ * Builds the URL of the heatmap of one or more sessions, e.g. `/heatmap?ids=<id>,<id>&projectId=123`
+ */
+export function heatmapPath(sessionIds: string[], options: Pick<SessionLinkOptions, 'projectId'> = {}): string {
+    const params = new URLSearchParams({ ids: sessionIds.join(',') })
+    if (options.projectId) params.set('projectId', options.projectId)
+    return `/heatmap?${params.toString().replace(/%2C/g, ',')}`
+}
+
+/**
+ * Parses the `ids` query parameter of a playlist or heatmap URL. Returns null
+ * if it is missing or holds anything but session IDs.
+ */
+export function parseSessionListParam(value: string | string[] | undefined | null): string[] | null {
+    if (typeof value !== 'string') return null
+    const ids = value.split(',').map((id) => id.trim()).filter(Boolean)
+    return ids.length > 0 && ids.every(isValidSessionId) ? ids : null
+}
+
+/**
+ * Parses the `t` query parameter of a player URL (`222`, `3:42` or `3m42s`)
+ * into ms from the start of the recording
+ */
+export function parseTimeParam(value: string | string[] | undefined | null): number | null {
+    return typeof value === 'string' ? parseDuration(value) : null
+}
+
+const FILTER_PARAMS = {
+    dateFrom: 'date_from',
+    dateTo: 'date_to',
+    minDuration: 'min_duration',
+    maxDuration: 'max_duration',
+    person: 'person',
+    url: 'url',
+} as const satisfies Record<keyof RecordingFilters, string>
+
+/**
+ * Serializes recording filters into query parameters (used both for the
+ * browser URL and for our recordings route handler)
+ */
+export function filtersToSearchParams(filters: RecordingFilters, params = new URLSearchParams()): URLSearchParams {
+    for (const [key, param] of Object.entries(FILTER_PARAMS) as [keyof RecordingFilters, string][]) {
+        const value = filters[key]
+        if (value !== undefined && value !== '') {
+            params.set(param, String(value))
+        }
+    }
+    return params
+}
+
+/**
+ * Parses recording filters back out of query parameters, dropping anything malformed
+ */
+export function filtersFromSearchParams(params: URLSearchParams): RecordingFilters {
+    const filters: RecordingFilters = {}
+
+    const text = (key: keyof RecordingFilters) => params.get(FILTER_PARAMS[key])?.trim() || undefined
+    const seconds = (key: keyof RecordingFilters) => {
+        const raw = params.get(FILTER_PARAMS[key])
+        if (!raw) return undefined
+        const value = Number(raw)
+        return Number.isFinite(value) && value >= 0 ? value : undefined
+    }
+
+    filters.dateFrom = text('dateFrom')
+    filters.dateTo = text('dateTo')
+    filters.minDuration = seconds('minDuration')
+    filters.maxDuration = seconds('maxDuration')
+    filters.person = text('person')
+    filters.url = text('url')
+
+    return filters
+}
@@ -0,0 +1,165 @@
+import type { NodeInfo } from './nodes'
+
+/**
+ * A small CSS selector engine for serialized nodes, which have no DOM to run
+ * `matches()` against. Supports tag, `#id`, `.class` and `[attr]`,
+ * `[attr=value]`, `[attr^=value]`, `[attr$=value]`, `[attr*=value]`
+ * selectors, compounds of them, the descendant and child combinators and
+ * comma-separated lists.
+ */
+
+interface AttributeTest {
+    name: string
+    operator?: '=' | '^=' | '$=' | '*='
+    value?: string
+}
+
+interface Compound {
+    tag?: string
+    id?: string
+    classes: string[]
+    attributes: AttributeTest[]
+    /** How this compound relates to the one before it */
+    combinator: 'descendant' | 'child'
+}
+
+/** One selector from a list, as compounds from left to right */
+type Complex = Compound[]
+
+export type Selector = Complex[]
+
+const TOKEN = /\s*(>)\s*|\s+|([a-zA-Z][\w-]*|\*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([\^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]/y
+
+/**
+ * Parses a selector list; throws on syntax this engine does not support
+ */
+export function parseSelector(text: string): Selector {
+    return text.split(',').map((part) => {
+        const source = part.trim()
+        if (!source) throw new Error(`Empty selector in "${text}"`)
+
+        const compounds: Complex = []
+        let current: Compound | null = null
+        let combinator: Compound['combinator'] = 'descendant'
+        TOKEN.lastIndex = 0
+
+        while (TOKEN.lastIndex < source.length) {
+            const start = TOKEN.lastIndex
+            const match = TOKEN.exec(source)
+            if (!match || match.index !== start) {
+                throw new Error(`Unsupported selector "${source}"`)
+            }
+            const [, child, tag, id, className, attribute, operator, dq, sq, bare] = match
+
+            if (child || (!tag && !id && !className && !attribute)) {
+                // A combinator ends the current compound
+                if (current) compounds.push(current)
+                current = null
+                combinator = child ? 'child' : combinator === 'child' ? 'child' : 'descendant'
+                continue
+            }
+
+            if (!current) {
+                current = { classes: [], attributes: [], combinator }
+                combinator = 'descendant'
+            }
+            if (tag && tag !== '*') current.tag = tag.toLowerCase()
+            if (id) current.id = id
+            if (className) current.classes.push(className)
+            if (attribute) {
+                current.attributes.push({
+                    name: attribute.toLowerCase(),
+                    operator: operator as AttributeTest['operator'],
+                    value: dq ?? sq ?? bare,
+                })
+            }
+        }
+        if (!current) throw new Error(`Selector "${source}" ends with a combinator`)
+        compounds.push(current)
+        return compounds
+    })
+}
+
+function attributeString(element: NodeInfo, name: string): string | undefined {
+    const value = element.attributes[name]
+    if (value === undefined || value === null || value === false) return undefined
+    return value === true ? '' : String(value)
+}
+
+function matchesCompound(compound: Compound, element: NodeInfo): boolean {
+    if (compound.tag && element.tagName !== compound.tag) return false
+    if (compound.id && attributeString(element, 'id') !== compound.id) return false
+    if (compound.classes.length > 0) {
+        const classes = (attributeString(element, 'class') ?? '').split(/\s+/)
+        if (!compound.classes.every((name) => classes.includes(name))) return false
+    }
+    return compound.attributes.every(({ name, operator, value }) => {
+        const actual = attributeString(element, name)
+        if (actual === undefined) return false
+        if (!operator || value === undefined) return true
+        switch (operator) {
+            case '=': return actual === value
+            case '^=': return actual.startsWith(value)
+            case '$=': return actual.endsWith(value)
+            case '*=': return actual.includes(value)
+        }
+    })
+}
+
+function matchesComplex(compounds: Complex, element: NodeInfo, ancestors: NodeInfo[], index: number, from: number): boolean {
+    if (!matchesCompound(compounds[index], element)) return false
+    if (index === 0) return true
+
+    const { combinator } = compounds[index]
+    if (combinator === 'child') {
+        const parent = ancestors[from]
+        return !!parent && matchesComplex(compounds, parent, ancestors, index - 1, from + 1)
+    }
+    for (let i = from; i < ancestors.length; i++) {
+        if (matchesComplex(compounds, ancestors[i], ancestors, index - 1, i + 1)) return true
+    }
+    return false
+}
+
+/**
+ * Whether an element matches a selector, given its element ancestors
+ * (nearest first)
+ */
+export function matchesSelector(selector: Selector, element: NodeInfo, ancestors: NodeInfo[]): boolean {
+    return selector.some((compounds) => matchesComplex(compounds, element, ancestors, compounds.length - 1, 0))
+}
+
+// Levels of ancestors a built selector walks up, unless an id is found first
+const DESCRIBE_MAX_DEPTH = 4
+const DESCRIBE_MAX_CLASSES = 2
+// Identifiers the engine above can parse back; generated class names often are not
+const SIMPLE_NAME = /^-?[a-zA-Z_][\w-]*$/
+
+function describeCompound(element: NodeInfo): { text: string, unique: boolean } {
+    const tag = element.tagName ?? '*'
+    const id = attributeString(element, 'id')
+    if (id && SIMPLE_NAME.test(id)) return { text: `${tag}#${id}`, unique: true }
+
+    const classes = (attributeString(element, 'class') ?? '')
+        .split(/\s+/)
+        .filter((name) => SIMPLE_NAME.test(name))
+        .slice(0, DESCRIBE_MAX_CLASSES)
+    return { text: tag + classes.map((name) => `.${name}`).join(''), unique: false }
+}
+
+/**
+ * Builds a readable selector for an element from its recorded tag, id and
+ * classes and those of its ancestors (nearest first), e.g.
+ * `form#signup > div.actions > button.primary`. Stops at the first id, at
+ * `body` or after a few levels. The result can be parsed by `parseSelector`.
+ */
+export function describeElement(element: NodeInfo, ancestors: NodeInfo[]): string {
+    const parts: string[] = []
+    for (const node of [element, ...ancestors]) {
+        if (node.tagName === 'body' || node.tagName === 'html') break
+        const { text, unique } = describeCompound(node)
+        parts.unshift(text)
+        if (unique || parts.length >= DESCRIBE_MAX_DEPTH) break
+    }
+    return parts.length > 0 ? parts.join(' > ') : element.tagName ?? '*'
+}
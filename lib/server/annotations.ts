@@ -0,0 +1,163 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { Annotation, AnnotationInput, AnnotationPatch } from '../types'
+
+/**
+ * JSON file store for recording annotations
+ *
+ * All annotations live in one file, keyed by project and session:
+ * - ANNOTATIONS_FILE: path of the store (default: data/annotations.json)
+ * Writes are serialized within the process and replace the file atomically.
+ */
+
+const MAX_TEXT_LENGTH = 2000
+
+type Store = Record<string, Annotation[]>
+
+/**
+ * An invalid annotation request, with the HTTP status to answer with
+ */
+export class AnnotationError extends Error {
+    constructor(message: string, public status: number) {
+        super(message)
+        this.name = 'AnnotationError'
+    }
+}
+
+function storeFile(): string {
+    return process.env.ANNOTATIONS_FILE || path.join(process.cwd(), 'data', 'annotations.json')
+}
+
+function sessionKey(sessionId: string, projectId: string | undefined): string {
+    return `${projectId || 'default'}:${sessionId}`
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Runs read-modify-write tasks one at a time so concurrent requests don't
+ * overwrite each other's changes
+ */
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const result = writeQueue.then(task)
+    writeQueue = result.catch(() => {})
+    return result
+}
+
+async function readStore(): Promise<Store> {
+    try {
+        return JSON.parse(await readFile(storeFile(), 'utf8')) as Store
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+        throw error
+    }
+}
+
+async function writeStore(store: Store): Promise<void> {
+    const file = storeFile()
+    await mkdir(path.dirname(file), { recursive: true })
+    const tempFile = `${file}.${process.pid}.tmp`
+    await writeFile(tempFile, JSON.stringify(store, null, 2))
+    await rename(tempFile, file)
+}
+
+function isTimestamp(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/**
+ * Checks a request body. With `partial`, fields may be left out (for PATCH).
+ */
+export function parseAnnotationInput(body: unknown, partial: true): AnnotationPatch
+export function parseAnnotationInput(body: unknown, partial?: false): AnnotationInput
+export function parseAnnotationInput(body: unknown, partial = false): AnnotationInput | AnnotationPatch {
+    if (!body || typeof body !== 'object') {
+        throw new AnnotationError('Expected a JSON object', 400)
+    }
+    const { timestamp, endTimestamp, text } = body as Record<string, unknown>
+    const result: AnnotationPatch = {}
+
+    if (timestamp !== undefined || !partial) {
+        if (!isTimestamp(timestamp)) throw new AnnotationError('timestamp must be a time in ms', 400)
+        result.timestamp = timestamp
+    }
+    if (text !== undefined || !partial) {
+        if (typeof text !== 'string' || !text.trim()) throw new AnnotationError('text must not be empty', 400)
+        if (text.length > MAX_TEXT_LENGTH) throw new AnnotationError(`text is longer than ${MAX_TEXT_LENGTH} characters`, 400)
+        result.text = text.trim()
+    }
+    if (endTimestamp === null && partial) {
+        result.endTimestamp = null
+    } else if (endTimestamp !== undefined && endTimestamp !== null) {
+        if (!isTimestamp(endTimestamp)) throw new AnnotationError('endTimestamp must be a time in ms', 400)
+        if (result.timestamp !== undefined && endTimestamp < result.timestamp) {
+            throw new AnnotationError('endTimestamp must not be before timestamp', 400)
+        }
+        result.endTimestamp = endTimestamp
+    }
+
+    return result
+}
+
+export async function listAnnotations(sessionId: string, projectId?: string): Promise<Annotation[]> {
+    const store = await readStore()
+    return store[sessionKey(sessionId, projectId)] ?? []
+}
+
+export function createAnnotation(sessionId: string, input: AnnotationInput, projectId?: string): Promise<Annotation> {
+    return serialized(async () => {
+        const store = await readStore()
+        const key = sessionKey(sessionId, projectId)
+        const now = new Date().toISOString()
+        const annotation: Annotation = { id: randomUUID(), ...input, createdAt: now, updatedAt: now }
+
+        store[key] = [...(store[key] ?? []), annotation].sort((a, b) => a.timestamp - b.timestamp)
+        await writeStore(store)
+        return annotation
+    })
+}
+
+export function updateAnnotation(
+    sessionId: string,
+    annotationId: string,
+    patch: AnnotationPatch,
+    projectId?: string
+): Promise<Annotation> {
+    return serialized(async () => {
+        const store = await readStore()
+        const key = sessionKey(sessionId, projectId)
+        const annotations = store[key] ?? []
+        const existing = annotations.find((annotation) => annotation.id === annotationId)
+        if (!existing) throw new AnnotationError(`Annotation ${annotationId} was not found`, 404)
+
+        const { endTimestamp, ...rest } = patch
+        const updated: Annotation = { ...existing, ...rest, updatedAt: new Date().toISOString() }
+        if (endTimestamp === null) delete updated.endTimestamp
+        else if (endTimestamp !== undefined) updated.endTimestamp = endTimestamp
+        if (updated.endTimestamp !== undefined && updated.endTimestamp < updated.timestamp) {
+            throw new AnnotationError('endTimestamp must not be before timestamp', 400)
+        }
+
+        store[key] = annotations
+            .map((annotation) => (annotation.id === annotationId ? updated : annotation))
+            .sort((a, b) => a.timestamp - b.timestamp)
+        await writeStore(store)
+        return updated
+    })
+}
+
+export function deleteAnnotation(sessionId: string, annotationId: string, projectId?: string): Promise<void> {
+    return serialized(async () => {
+        const store = await readStore()
+        const key = sessionKey(sessionId, projectId)
+        const annotations = store[key] ?? []
+        if (!annotations.some((annotation) => annotation.id === annotationId)) {
+            throw new AnnotationError(`Annotation ${annotationId} was not found`, 404)
+        }
+
+        store[key] = annotations.filter((annotation) => annotation.id !== annotationId)
+        if (store[key].length === 0) delete store[key]
+        await writeStore(store)
+    })
+}
@@ -0,0 +1,30 @@
+/**
+ * Server-side PostHog configuration
+ *
+ * Read from environment variables so the personal API key never reaches the
+ * client bundle. Only import this from route handlers and other server code.
+ * - POSTHOG_API_KEY: Your PostHog personal API key
+ * - POSTHOG_PROJECT_ID: Your PostHog project ID
+ * - POSTHOG_API_HOST: Your PostHog instance URL (default: https://us.posthog.com)
+ */
+
+export interface ServerConfig {
+    apiKey: string
+    projectId: string
+    apiHost: string
+}
+
+export function getServerConfig(): ServerConfig {
+    const apiKey = process.env.POSTHOG_API_KEY
+    const projectId = process.env.POSTHOG_PROJECT_ID
+
+    if (!apiKey || !projectId) {
+        throw new Error('Missing PostHog configuration: set POSTHOG_API_KEY and POSTHOG_PROJECT_ID')
+    }
+
+    return {
+        apiKey,
+        projectId,
+        apiHost: (process.env.POSTHOG_API_HOST || 'https://us.posthog.com').replace(/\/+$/, ''),
+    }
+}
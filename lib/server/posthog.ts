@@ -0,0 +1,177 @@
+import { getServerConfig } from './config'
+import { isValidProjectId, isValidSessionId } from '../routes'
+import type { RecordingFilters, RecordingsPage, SessionRecording, Source } from '../types'
+
+/**
+ * Error carrying the HTTP status PostHog answered with
+ */
+export class PostHogError extends Error {
+    constructor(message: string, public status: number) {
+        super(message)
+        this.name = 'PostHogError'
+    }
+}
+
+/**
+ * Performs an authenticated request against the PostHog project API.
+ * `path` is relative to `/api/projects/:projectId/`. The project defaults to
+ * POSTHOG_PROJECT_ID unless the caller passes another one.
+ */
+export async function posthogFetch(path: string, projectId?: string): Promise<Response> {
+    const config = getServerConfig()
+    const url = `${config.apiHost}/api/projects/${encodeURIComponent(projectId || config.projectId)}/${path}`
+
+    return fetch(url, {
+        headers: {
+            'Authorization': `Bearer ${config.apiKey}`
+        },
+        cache: 'no-store',
+    })
+}
+
+/**
+ * Fetches the list of sources (blob storage locations) for a session recording
+ */
+export function fetchSources(sessionId: string, projectId?: string): Promise<Response> {
+    return posthogFetch(`session_recordings/${encodeURIComponent(sessionId)}/snapshots?blob_v2=true`, projectId)
+}
+
+/**
+ * Fetches snapshot data from a specific source
+ */
+export function fetchSnapshotFromSource(sessionId: string, source: Source, projectId?: string): Promise<Response> {
+    const sourceParam = encodeURIComponent(source.source)
+    const base = `session_recordings/${encodeURIComponent(sessionId)}/snapshots`
+
+    if (source.source === 'blob_v2' || source.start_blob_key !== undefined) {
+        const startKey = source.start_blob_key || source.blob_key
+        const endKey = source.end_blob_key || source.blob_key
+
+        if (!startKey || !endKey) {
+            throw new Error(`Missing blob keys for source ${source.source}`)
+        }
+
+        const startKeyParam = encodeURIComponent(startKey)
+        const endKeyParam = encodeURIComponent(endKey)
+        return posthogFetch(`${base}?source=${sourceParam}&start_blob_key=${startKeyParam}&end_blob_key=${endKeyParam}&blob_v2=true`, projectId)
+    }
+
+    const blobKeyParam = encodeURIComponent(source.blob_key || '')
+    return posthogFetch(`${base}?source=${sourceParam}&blob_key=${blobKeyParam}`, projectId)
+}
+
+// Upstream headers passed on to the browser
+const FORWARDED_HEADERS = ['content-type', 'retry-after']
+
+/**
+ * Wraps an upstream PostHog response so it can be returned from a route handler.
+ * The body is streamed through untouched; only the content type and
+ * Retry-After (so clients can back off on 429s) are forwarded.
+ */
+export function forwardResponse(upstream: Response): Response {
+    const headers = new Headers()
+    for (const name of FORWARDED_HEADERS) {
+        const value = upstream.headers.get(name)
+        if (value) {
+            headers.set(name, value)
+        }
+    }
+
+    return new Response(upstream.body, {
+        status: upstream.status,
+        statusText: upstream.statusText,
+        headers,
+    })
+}
+
+/**
+ * Validates the session and optional project ID a route handler was called with.
+ * Returns an error response to send back, or null when both are usable.
+ */
+export function validateRecordingParams(sessionId: string, projectId: string | null): Response | null {
+    if (!isValidSessionId(sessionId)) {
+        return errorResponse(new Error(`Invalid session ID "${sessionId}"`), 404)
+    }
+    if (projectId !== null && !isValidProjectId(projectId)) {
+        return errorResponse(new Error(`Invalid project ID "${projectId}"`), 400)
+    }
+    return null
+}
+
+/**
+ * Converts an error thrown while talking to PostHog into a JSON error response
+ */
+export function errorResponse(error: unknown, status = 500): Response {
+    if (error instanceof PostHogError) {
+        status = error.status
+    }
+    const message = error instanceof Error ? error.message : 'Unexpected error'
+    return Response.json({ error: message }, { status })
+}
+
+const DEFAULT_RECORDINGS_LIMIT = 25
+const MAX_RECORDINGS_LIMIT = 100
+
+/**
+ * Lists session recordings matching the given filters. The cursor is the
+ * offset into PostHog's result set, kept opaque to the client.
+ */
+export async function listRecordings(
+    filters: RecordingFilters,
+    options: { cursor?: string | null, limit?: number, projectId?: string } = {}
+): Promise<RecordingsPage> {
+    const offset = options.cursor ? Number(options.cursor) : 0
+    if (!Number.isInteger(offset) || offset < 0) {
+        throw new Error(`Invalid cursor "${options.cursor}"`)
+    }
+    const limit = Math.min(Math.max(1, options.limit || DEFAULT_RECORDINGS_LIMIT), MAX_RECORDINGS_LIMIT)
+
+    const params = new URLSearchParams({
+        limit: String(limit),
+        offset: String(offset),
+        order: 'start_time',
+        date_from: filters.dateFrom || '-7d',
+    })
+    if (filters.dateTo) params.set('date_to', filters.dateTo)
+
+    const havingPredicates = []
+    if (filters.minDuration !== undefined) {
+        havingPredicates.push({ type: 'recording', key: 'duration', operator: 'gt', value: filters.minDuration })
+    }
+    if (filters.maxDuration !== undefined) {
+        havingPredicates.push({ type: 'recording', key: 'duration', operator: 'lt', value: filters.maxDuration })
+    }
+    if (havingPredicates.length > 0) {
+        params.set('having_predicates', JSON.stringify(havingPredicates))
+    }
+
+    if (filters.url) {
+        params.set('properties', JSON.stringify([
+            { type: 'event', key: '$current_url', operator: 'icontains', value: filters.url },
+        ]))
+    }
+
+    if (filters.person) {
+        if (isValidSessionId(filters.person)) {
+            // Person UUIDs share the session ID format
+            params.set('person_uuid', filters.person)
+        } else {
+            params.set('distinct_ids', JSON.stringify([filters.person]))
+        }
+    }
+
+    const response = await posthogFetch(`session_recordings?${params.toString()}`, options.projectId)
+
+    if (!response.ok) {
+        const errorText = await response.text().catch(() => 'No error details')
+        throw new PostHogError(`Failed to list recordings: ${response.status} ${response.statusText}. Details: ${errorText}`, response.status)
+    }
+
+    const data: { results?: SessionRecording[], has_next?: boolean } = await response.json()
+    const results = data.results || []
+
+    return {
+        results,
+        nextCursor: data.has_next ? String(offset + results.length) : null,
+    }
+}
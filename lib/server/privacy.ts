@@ -0,0 +1,47 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { DEFAULT_PRIVACY_RULES, type PrivacyRule } from '../privacy'
+
+/**
+ * JSON file store for per-project privacy rules
+ *
+ * - PRIVACY_RULES_FILE: path of the store (default: data/privacy.json)
+ * Projects without an entry use the `default` entry, then DEFAULT_PRIVACY_RULES.
+ */
+
+type Store = Record<string, PrivacyRule[]>
+
+function storeFile(): string {
+    return process.env.PRIVACY_RULES_FILE || path.join(process.cwd(), 'data', 'privacy.json')
+}
+
+async function readStore(): Promise<Store> {
+    try {
+        return JSON.parse(await readFile(storeFile(), 'utf8')) as Store
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+        throw error
+    }
+}
+
+export async function getPrivacyRules(projectId?: string): Promise<PrivacyRule[]> {
+    const store = await readStore()
+    return store[projectId || 'default'] ?? store.default ?? DEFAULT_PRIVACY_RULES
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+export function setPrivacyRules(rules: PrivacyRule[], projectId?: string): Promise<void> {
+    const task = writeQueue.then(async () => {
+        const store = await readStore()
+        store[projectId || 'default'] = rules
+
+        const file = storeFile()
+        await mkdir(path.dirname(file), { recursive: true })
+        const tempFile = `${file}.${process.pid}.tmp`
+        await writeFile(tempFile, JSON.stringify(store, null, 2))
+        await rename(tempFile, file)
+    })
+    writeQueue = task.catch(() => {})
+    return task
+}
@@ -0,0 +1,18 @@
+import { cookies } from 'next/headers'
+
+/**
+ * Who is viewing the player
+ *
+ * There is no login in this app, so admin access is a shared secret:
+ * - PLAYER_ADMIN_TOKEN: viewers whose `player_admin` cookie holds this value
+ *   are admins (unset: nobody is)
+ * Replace this with the host application's own auth when embedding the player.
+ */
+
+export const ADMIN_COOKIE = 'player_admin'
+
+export async function isAdminViewer(): Promise<boolean> {
+    const token = process.env.PLAYER_ADMIN_TOKEN
+    if (!token) return false
+    return (await cookies()).get(ADMIN_COOKIE)?.value === token
+}
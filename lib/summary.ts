@@ -0,0 +1,123 @@
+import { extractConsoleEntries } from './console'
+import { IncrementalSource, isIncremental, MouseInteractions, type RecordingEvent } from './events'
+import { findInactivePeriods, totalLength } from './inactivity'
+import { extractPageVisits, extractViewportSizes } from './navigation'
+import { extractNetworkRequests, isFailedRequest } from './network'
+import type { TimeRange } from './types'
+
+/**
+ * What happened in a recording, at a glance: time spent, pages, interaction
+ * counts, DOM churn and problems. Durations are in ms, timestamps epoch ms.
+ */
+
+export interface PageSummary {
+    href: string
+    visits: number
+    /** Time on the page over all visits */
+    duration: number
+    /** Time on the page minus inactive periods */
+    activeDuration: number
+}
+
+export interface MutationVolume {
+    /** Mutation events */
+    events: number
+    adds: number
+    removes: number
+    attributes: number
+    texts: number
+}
+
+export interface SessionSummary {
+    start: number
+    end: number
+    duration: number
+    /** Duration minus the periods without user interaction */
+    activeDuration: number
+    /** In order of the first visit */
+    pages: PageSummary[]
+    clicks: number
+    /** Input events: rrweb records one per change of a field's value, so roughly one per keystroke */
+    keypresses: number
+    scrolls: number
+    mutations: MutationVolume
+    /** Viewport sizes in the order they were used; the first one is the initial size */
+    viewports: { timestamp: number, width: number, height: number }[]
+    consoleErrors: { timestamp: number, message: string }[]
+    failedRequests: { timestamp: number, method: string, url: string, status: number }[]
+}
+
+function eventsRange(events: RecordingEvent[]): TimeRange {
+    return { start: events[0]?.timestamp ?? 0, end: events[events.length - 1]?.timestamp ?? 0 }
+}
+
+/**
+ * Length of the part of `range` covered by the (non-overlapping) `periods`
+ */
+function overlap(range: TimeRange, periods: TimeRange[]): number {
+    return periods.reduce((sum, period) =>
+        sum + Math.max(0, Math.min(range.end, period.end) - Math.max(range.start, period.start)), 0)
+}
+
+/**
+ * Summarizes a recording. `range` is the span the whole recording covers,
+ * when known beyond its first and last event.
+ */
+export function summarizeSession(events: RecordingEvent[], range: TimeRange = eventsRange(events)): SessionSummary {
+    const inactive = findInactivePeriods(events, range)
+
+    const pages = new Map<string, PageSummary>()
+    const visits = extractPageVisits(events)
+    visits.forEach((visit, i) => {
+        const span = { start: visit.timestamp, end: visits[i + 1]?.timestamp ?? range.end }
+        const duration = Math.max(0, span.end - span.start)
+        const page = pages.get(visit.href) ?? { href: visit.href, visits: 0, duration: 0, activeDuration: 0 }
+        page.visits++
+        page.duration += duration
+        page.activeDuration += duration - overlap(span, inactive)
+        pages.set(visit.href, page)
+    })
+
+    let clicks = 0
+    let keypresses = 0
+    let scrolls = 0
+    const mutations: MutationVolume = { events: 0, adds: 0, removes: 0, attributes: 0, texts: 0 }
+    for (const event of events) {
+        if (isIncremental(event, IncrementalSource.MouseInteraction)) {
+            if (event.data.type === MouseInteractions.Click) clicks++
+        } else if (isIncremental(event, IncrementalSource.Input)) {
+            keypresses++
+        } else if (isIncremental(event, IncrementalSource.Scroll)) {
+            scrolls++
+        } else if (isIncremental(event, IncrementalSource.Mutation)) {
+            mutations.events++
+            mutations.adds += event.data.adds.length
+            mutations.removes += event.data.removes.length
+            mutations.attributes += event.data.attributes.length
+            mutations.texts += event.data.texts.length
+        }
+    }
+
+    // Meta events repeat the size on every full snapshot; keep changes only
+    const viewports = extractViewportSizes(events).filter((size, i, sizes) =>
+        i === 0 || size.width !== sizes[i - 1].width || size.height !== sizes[i - 1].height)
+
+    return {
+        start: range.start,
+        end: range.end,
+        duration: range.end - range.start,
+        activeDuration: range.end - range.start - totalLength(inactive),
+        pages: [...pages.values()],
+        clicks,
+        keypresses,
+        scrolls,
+        mutations,
+        viewports,
+        consoleErrors: extractConsoleEntries(events)
+            .filter((entry) => entry.level === 'error')
+            .map((entry) => ({ timestamp: entry.timestamp, message: entry.message })),
+        failedRequests: extractNetworkRequests(events)
+            .filter(isFailedRequest)
+            .map((request) => ({ timestamp: request.start, method: request.method, url: request.url, status: request.status! })),
+    }
+}
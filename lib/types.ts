@@ -0,0 +1,94 @@
+/**
+ * Types for PostHog API responses shared between the route handlers and the client
+ */
+export interface Source {
+    source: string
+    blob_key?: string
+    start_blob_key?: string
+    end_blob_key?: string
+    /** ISO timestamps of the first and last event in the blob, when PostHog provides them */
+    start_timestamp?: string
+    end_timestamp?: string
+}
+
+export interface SourcesResponse {
+    sources: Source[]
+}
+
+/**
+ * A span of recording time, as epoch milliseconds
+ */
+export interface TimeRange {
+    start: number
+    end: number
+}
+
+/**
+ * A row of PostHog's `session_recordings` list endpoint (only the fields we use)
+ */
+export interface SessionRecording {
+    id: string
+    distinct_id?: string
+    start_time: string
+    end_time?: string
+    recording_duration: number
+    active_seconds?: number
+    click_count?: number
+    keypress_count?: number
+    console_error_count?: number
+    start_url?: string
+    person?: {
+        id?: string
+        uuid?: string
+        name?: string
+        distinct_ids?: string[]
+        properties?: Record<string, unknown>
+    }
+}
+
+/**
+ * Filters accepted by our recordings list route
+ */
+export interface RecordingFilters {
+    /** Absolute date (YYYY-MM-DD) or relative PostHog date such as `-7d` */
+    dateFrom?: string
+    dateTo?: string
+    /** Recording duration bounds in seconds */
+    minDuration?: number
+    maxDuration?: number
+    /** Person UUID or distinct ID */
+    person?: string
+    /** Matches recordings that visited a URL containing this string */
+    url?: string
+}
+
+export interface RecordingsPage {
+    results: SessionRecording[]
+    /** Opaque cursor for the next page, or null on the last page */
+    nextCursor: string | null
+}
+
+/**
+ * A note on a recording at a point in time, or over a range when
+ * `endTimestamp` is set (both epoch ms)
+ */
+export interface Annotation {
+    id: string
+    timestamp: number
+    endTimestamp?: number
+    text: string
+    /** ISO dates */
+    createdAt: string
+    updatedAt: string
+}
+
+export interface AnnotationInput {
+    timestamp: number
+    endTimestamp?: number
+    text: string
+}
+
+/**
+ * Changes to an annotation; `endTimestamp: null` turns a range back into a point
+ */
+export type AnnotationPatch = Partial<Omit<AnnotationInput, 'endTimestamp'>> & { endTimestamp?: number | null }
@@ -0,0 +1,94 @@
+import type { EventValidationResult } from '../events'
+import { processSnapshotBuffer, type ProgressCallback } from '../processing'
+import { decodeResult, encodeResult, type WorkerResponse } from './protocol'
+
+/**
+ * A processed blob and the size of its encoded result in bytes
+ */
+export interface ProcessedBlob {
+    result: EventValidationResult
+    size: number
+}
+
+interface PendingRequest {
+    resolve: (processed: ProcessedBlob) => void
+    reject: (error: Error) => void
+    onProgress?: ProgressCallback
+}
+
+let worker: Worker | null = null
+let workerFailed = false
+let nextRequestId = 1
+const pending = new Map<number, PendingRequest>()
+
+function failAll(error: Error) {
+    for (const request of pending.values()) {
+        request.reject(error)
+    }
+    pending.clear()
+}
+
+function getWorker(): Worker | null {
+    if (worker) return worker
+    if (workerFailed || typeof Worker === 'undefined') return null
+
+    try {
+        worker = new Worker(new URL('./snapshot.worker.ts', import.meta.url), { type: 'module' })
+    } catch (e) {
+        console.warn('Snapshot worker unavailable, processing on the main thread:', e)
+        workerFailed = true
+        return null
+    }
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const message = e.data
+        const request = pending.get(message.id)
+        if (!request) return
+
+        switch (message.type) {
+            case 'progress':
+                request.onProgress?.(message.percent)
+                break
+            case 'result':
+                pending.delete(message.id)
+                request.resolve({ result: decodeResult(message.buffer), size: message.buffer.byteLength })
+                break
+            case 'error':
+                pending.delete(message.id)
+                request.reject(new Error(message.message))
+                break
+        }
+    }
+
+    worker.onerror = (e) => {
+        console.error('Snapshot worker crashed:', e.message)
+        worker?.terminate()
+        worker = null
+        workerFailed = true
+        failAll(new Error(`Snapshot worker crashed: ${e.message}`))
+    }
+
+    return worker
+}
+
+/**
+ * Processes a raw snapshot blob in the snapshot worker. The buffer is
+ * transferred, so it is unusable afterwards. Falls back to the main thread
+ * where workers are unavailable.
+ */
+export function processInWorker(buffer: ArrayBuffer, onProgress?: ProgressCallback): Promise<ProcessedBlob> {
+    const target = getWorker()
+
+    if (!target) {
+        return Promise.resolve().then(() => {
+            const result = processSnapshotBuffer(buffer, onProgress)
+            return { result, size: encodeResult(result).byteLength }
+        })
+    }
+
+    const id = nextRequestId++
+    return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject, onProgress })
+        target.postMessage({ id, type: 'process', buffer }, [buffer])
+    })
+}
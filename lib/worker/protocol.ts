@@ -0,0 +1,31 @@
+import type { EventValidationResult } from '../events'
+
+/**
+ * Message protocol between the main thread and the snapshot worker
+ */
+
+/** Main thread → worker: process one raw snapshot blob (the buffer is transferred) */
+export interface ProcessRequest {
+    id: number
+    type: 'process'
+    buffer: ArrayBuffer
+}
+
+export type WorkerRequest = ProcessRequest
+
+/**
+ * Worker → main thread. Results come back as UTF-8 JSON in a transferred
+ * buffer rather than as objects, which would be structured-cloned event by event.
+ */
+export type WorkerResponse =
+    | { id: number, type: 'progress', percent: number }
+    | { id: number, type: 'result', buffer: ArrayBuffer }
+    | { id: number, type: 'error', message: string }
+
+export function encodeResult(result: EventValidationResult): ArrayBuffer {
+    return new TextEncoder().encode(JSON.stringify(result)).buffer as ArrayBuffer
+}
+
+export function decodeResult(buffer: ArrayBuffer): EventValidationResult {
+    return JSON.parse(new TextDecoder().decode(buffer))
+}
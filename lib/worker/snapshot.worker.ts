@@ -0,0 +1,23 @@
+import { processSnapshotBuffer } from '../processing'
+import { encodeResult, type WorkerRequest, type WorkerResponse } from './protocol'
+
+/**
+ * Dedicated worker that parses, decompresses and validates snapshot blobs off
+ * the main thread
+ */
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer })
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+    const { id, buffer } = e.data
+
+    try {
+        const result = processSnapshotBuffer(buffer, (percent) => {
+            post({ id, type: 'progress', percent })
+        })
+        const encoded = encodeResult(result)
+        post({ id, type: 'result', buffer: encoded }, [encoded])
+    } catch (error) {
+        post({ id, type: 'error', message: error instanceof Error ? error.message : 'Failed to process snapshot' })
+    }
+}